@@ -0,0 +1,48 @@
+import { Span } from './lexer-except'
+
+const RESET = '\x1b[0m'
+const BOLD_RED = '\x1b[1;31m'
+const BOLD_BLUE = '\x1b[1;34m'
+
+/**
+ * Tests whether diagnostics are colored, which is when stdout is a terminal and `NO_COLOR` is not set.
+ */
+export function useColors(): boolean {
+  return process.stdout.isTTY === true && process.env['NO_COLOR'] === undefined
+}
+
+/**
+ * Renders the source line where the span begins, with the span underlined:
+ *
+ * ```
+ *   |
+ * 3 | (let (f x) (add x "a"))
+ *   |            ^~~~~~~~~~~
+ * ```
+ *
+ * A span over several lines is underlined to the end of its first line.
+ * @returns the lines to append to an error message, each beginning with a line break, or an empty string if the
+ * source of the span is not known
+ */
+export function renderExcerpt(span: Span, colors: boolean = useColors()): string {
+  let line = span.source === '' ? undefined : span.source.split('\n')[span.start.line - 1]
+  if (line === undefined) {
+    return ''
+  }
+  line = line.replace(/\r$/, '')
+
+  let startColumn = span.start.column - 1
+  let endColumn = span.end.line === span.start.line ? span.end.column - 1 : line.length
+  let width = Math.max(1, endColumn - startColumn)
+  // tabs are kept before the underline, so that it is aligned however wide they are displayed
+  let indent = line.slice(0, startColumn).replace(/[^\t]/g, ' ')
+  let underline = '^' + '~'.repeat(width - 1)
+
+  let number = `${span.start.line}`
+  let gutter = number.replace(/./g, ' ')
+  const paint = (style: string, text: string) => colors ? `${style}${text}${RESET}` : text
+
+  return `\n${paint(BOLD_BLUE, `${gutter} |`)}`
+    + `\n${paint(BOLD_BLUE, `${number} |`)} ${line}`
+    + `\n${paint(BOLD_BLUE, `${gutter} |`)} ${indent}${paint(BOLD_RED, underline)}`
+}
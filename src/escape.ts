@@ -0,0 +1,79 @@
+/** An invalid escape sequence in the text of a string literal. */
+export class EscapeError {
+  message: string
+  /** where the escape sequence begins in the text */
+  index: number
+  /** the escape sequence as written */
+  sequence: string
+
+  constructor(message: string, index: number, sequence: string) {
+    this.message = message
+    this.index = index
+    this.sequence = sequence
+  }
+}
+
+const SIMPLE_ESCAPES: {[c: string]: string} = {
+  '"': '"',
+  '\\': '\\',
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  '0': '\0',
+}
+
+/**
+ * Decodes the escape sequences in the text between the quotes of a string literal: `\"`, `\\`, `\n`, `\t`, `\r`,
+ * `\0` and `\u{...}` with 1 to 6 hexadecimal digits.
+ */
+export function decodeEscapes(text: string): string | EscapeError {
+  let decoded = ''
+  let i = 0
+  while (i < text.length) {
+    let c = text[i]
+    if (c !== '\\') {
+      decoded += c
+      i++
+      continue
+    }
+
+    let escaped = text[i + 1]
+    if (escaped === undefined) {
+      return new EscapeError('incomplete escape sequence', i, '\\')
+    } else if (escaped in SIMPLE_ESCAPES) {
+      decoded += SIMPLE_ESCAPES[escaped]
+      i += 2
+    } else if (escaped === 'u') {
+      let matches = /^\\u\{([0-9a-fA-F]{1,6})\}/.exec(text.slice(i))
+      if (matches === null) {
+        let sequence = /^\\u(\{[^}"]*\}?)?/.exec(text.slice(i))![0]
+        return new EscapeError(`malformed unicode escape \`${sequence}\`, expected \`\\u{...}\` with 1 to 6 hexadecimal digits`, i, sequence)
+      }
+      let codePoint = parseInt(matches[1], 16)
+      if (codePoint > 0x10ffff) {
+        return new EscapeError(`unicode escape \`${matches[0]}\` out of range`, i, matches[0])
+      }
+      decoded += String.fromCodePoint(codePoint)
+      i += matches[0].length
+    } else {
+      return new EscapeError(`unknown escape sequence \`\\${escaped}\``, i, `\\${escaped}`)
+    }
+  }
+  return decoded
+}
+
+/**
+ * Quotes the string as a literal, escaping what cannot be written in it as is.
+ */
+export function quoteString(s: string): string {
+  let quoted = s.replace(/[\\"\n\t\r\0]/g, c => {
+    switch (c) {
+      case '\n': return '\\n'
+      case '\t': return '\\t'
+      case '\r': return '\\r'
+      case '\0': return '\\0'
+      default: return '\\' + c
+    }
+  })
+  return `"${quoted}"`
+}
@@ -1,5 +1,5 @@
 import * as fs from 'fs'
-import { execute, interpret } from './semantics'
+import { execute, interpret, macroExpansionSteps, EvalOptions } from './semantics'
 import { question } from 'readline-sync'
 
 function showGreetings() {
@@ -14,13 +14,14 @@ Welcome to RumLisp Interactive Console!
 function showHelp() {
   process.stdout.write(`Commands (starts with :)
   :exit           Exit this interactive console.
+  :expand <expr>  Show each step of the macro expansion of the expression.
   :<any other>    Prompt for this help.
 
 Or directly type RumLisp expressions to evaluate them and see the results.
 `)
 }
 
-function repl() {
+function repl(options: EvalOptions) {
   showGreetings()
   let cmd = ''
   while (true) {
@@ -28,6 +29,15 @@ function repl() {
     if (cmd.startsWith(':')) {
       if (cmd === ':exit') {
         return
+      } else if (cmd.startsWith(':expand ')) {
+        macroExpansionSteps(cmd.slice(':expand '.length)).handle(
+          steps => {
+            for (let i = 0; i < steps.length; i++) {
+              console.log(`(step ${i}) ${steps[i]}`)
+            }
+          },
+          err => console.error(`${err}`)
+        )
       } else {
         showHelp()
       }
@@ -36,7 +46,7 @@ function repl() {
         cmd = `(${cmd})`
       }
 
-      let values = interpret(cmd)
+      let values = interpret(cmd, options)
       values.handle(
         vals => {
           for (let i in vals) {
@@ -47,24 +57,59 @@ function repl() {
             }
           }
         },
-        err => console.error(err)
+        err => console.error(`${err}`)
       )
     }
   }
 }
 
+/**
+ * Reads the command line `[--max-depth N] [--max-steps N] [--timeout MS] [file]`.
+ * @returns `undefined` if the command line is malformed
+ */
+function parseArgs(args: string[]): { file?: string, options: EvalOptions } | undefined {
+  let file: string | undefined = undefined
+  let options: EvalOptions = {}
+  for (let i = 0; i < args.length; i++) {
+    let arg = args[i]
+    if (arg === '--max-depth' || arg === '--max-steps' || arg === '--timeout') {
+      let n = Number(args[i + 1])
+      if (!(n > 0 && Math.floor(n) === n)) {
+        console.error(`expected a positive integer after ${arg}`)
+        return undefined
+      }
+      if (arg === '--max-depth') {
+        options.maxDepth = n
+      } else if (arg === '--max-steps') {
+        options.maxSteps = n
+      } else {
+        options.timeout = n
+      }
+      i++
+    } else if (file === undefined) {
+      file = arg
+    } else {
+      console.error(`unexpected argument '${arg}'`)
+      return undefined
+    }
+  }
+  return { file, options }
+}
+
 function main() {
-  const argv = process.argv
-  if (argv.length > 2) {
-    const source = fs.readFileSync(argv[2]).toString()
-    let values = execute(argv[2], source)
+  const args = parseArgs(process.argv.slice(2))
+  if (args === undefined) {
+    process.exitCode = 1
+  } else if (args.file !== undefined) {
+    const source = fs.readFileSync(args.file).toString()
+    let values = execute(args.file, source, args.options)
     values.handle(
       _vals => {
       },
-      err => console.error(err)
+      err => console.error(`${err}`)
     )
   } else {
-    repl()
+    repl(args.options)
   }
 }
 
@@ -1,20 +1,111 @@
 import * as path from 'path'
+import { renderExcerpt } from './diagnostic'
+import { decodeEscapes, EscapeError } from './escape'
+import { isNumeric, parseNumber } from './number'
 
-class SourcePosition {
+/** A point in a source file; lines and columns count from 1, offsets from 0. */
+export class Position {
+  line: number
+  column: number
+  offset: number
+
+  constructor(line: number, column: number, offset: number) {
+    this.line = line
+    this.column = column
+    this.offset = offset
+  }
+
+  /**
+   * @returns the position after the text, if it begins at this position
+   */
+  after(text: string): Position {
+    let line = this.line
+    let column = this.column
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+    }
+    return new Position(line, column, this.offset + text.length)
+  }
+}
+
+/** The range of source text an expression is parsed from, with the end exclusive. */
+export class Span {
   filepath: string
+  start: Position
+  end: Position
+  /** the whole source the span is in, from which excerpts are shown */
   source: string
+
+  constructor(filepath: string, start: Position, end: Position, source: string) {
+    this.filepath = filepath
+    this.start = start
+    this.end = end
+    this.source = source
+  }
+
+  /**
+   * @returns the span from the start of this one to the end of the other
+   */
+  to(other: Span): Span {
+    return new Span(this.filepath, this.start, other.end, this.source)
+  }
+
+  /**
+   * Formats the start of the span to be appended to messages.
+   */
+  toString(): string {
+    return ` at line ${this.start.line}, column ${this.start.column}`
+  }
+}
+
+class SourcePosition {
+  filepath: string
+  /** the whole source */
+  text: string
+  /** where the source ends without the trailing white characters */
+  end: number
   line: number
   column: number
+  offset: number
 
   constructor(filepath: string, source: string) {
     this.filepath = path.normalize(filepath)
-    this.source = source.trim()
+    this.text = source
+    // leading white characters are kept, so that positions are the same as in the file
+    let end = source.length
+    while (end > 0 && /\s/.test(source[end - 1])) {
+      end--
+    }
+    this.end = end
     this.line = 1
     this.column = 1
+    this.offset = 0
   }
 
   get eof(): boolean {
-    return this.source.length === 0
+    return this.offset >= this.end
+  }
+
+  /**
+   * the character at the current position, or an empty string at the EOF
+   */
+  get current(): string {
+    return this.eof ? '' : this.text[this.offset]
+  }
+
+  /**
+   * Matches the sticky pattern at the current position.
+   * @returns the text matched, or `undefined` if not matched
+   */
+  match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.offset
+    let matches = pattern.exec(this.text)
+    return matches === null ? undefined : matches[0]
   }
 
   /**
@@ -22,14 +113,13 @@ class SourcePosition {
    */
   private advance1(): boolean {
     if (!this.eof) {
-      if (this.source[0] === '\n') {
-        this.source = this.source.slice(1)
+      if (this.text[this.offset] === '\n') {
         this.line++
         this.column = 1
       } else {
-        this.source = this.source.slice(1)
         this.column++
       }
+      this.offset++
       return true
     } else {
       return false
@@ -49,6 +139,18 @@ class SourcePosition {
     return true
   }
 
+  get position(): Position {
+    return new Position(this.line, this.column, this.offset)
+  }
+
+  /**
+   * @returns the span of the text beginning at the current position
+   */
+  spanOf(text: string): Span {
+    let start = this.position
+    return new Span(this.filepath, start, start.after(text), this.text)
+  }
+
   toString(): string {
     return `line ${this.line}, column ${this.column} in ${this.filepath}`
   }
@@ -73,14 +175,17 @@ export class SyntaxError implements Error {
   name: string
   message: string
   stack?: string | undefined
+  /** where the error is, shown as an excerpt of the source */
+  span?: Span
 
-  constructor(message: string) {
+  constructor(message: string, span?: Span) {
     this.name = 'syntax error'
     this.message = message
+    this.span = span
   }
 
   toString() {
-    return `${this.name}: ${this.message}`
+    return `${this.name}: ${this.message}` + (this.span === undefined ? '' : `${this.span}${renderExcerpt(this.span)}`)
   }
 }
 
@@ -103,9 +208,9 @@ class UncheckedToken {
 
   check(): Token {
     if (this.token.type === TokenType.eof) {
-      throw new SyntaxError(`unexpected EOF${this.token.locate()}`)
+      throw new SyntaxError(`unexpected EOF`, this.token.span)
     } else if (this.token.type === TokenType.err) {
-      throw new SyntaxError(this.toString())
+      throw new SyntaxError(this.token.literal, this.token.span)
     }
 
     return this.token
@@ -127,31 +232,29 @@ class UncheckedToken {
 export class Token {
   type: TokenType
   literal: string
-  line?: number
-  column?: number
+  span: Span
 
-  constructor(type: TokenType, literal: string, line?: number, column?: number) {
+  constructor(type: TokenType, literal: string, span: Span) {
     this.type = type
     this.literal = literal
-    this.line = line
-    this.column = column
+    this.span = span
   }
 
   toString(): string {
-    return `${this.literal}` + (this.line != undefined ? ` at line ${this.line}, column ${this.column}` : '')
+    return `${this.literal}${this.locate()}`
   }
 
   locate(): string {
-    return this.line !== undefined ? ` at line ${this.line}, column ${this.column}` : ''
+    return `${this.span}`
   }
 }
 
-const eofToken = new Token(TokenType.eof, "")
-const initToken = new Token(TokenType.init, "")
+const initToken = new Token(TokenType.init, "", new Span('', new Position(1, 1, 0), new Position(1, 1, 0), ''))
 
-type Generator = (literal: string, line?: number, column?: number) => Token
+type Generator = (literal: string, span: Span) => Token
 
 class Rule {
+  /** a sticky pattern, which is matched at the current position only */
   pattern: RegExp
   generator: Generator
 
@@ -162,32 +265,54 @@ class Rule {
 }
 
 function makeGenerator(tokenType: TokenType): Generator {
-  return function (literal: string, line?: number, column?: number) {
-    return new Token(tokenType, literal, line, column)
+  return function (literal: string, span: Span) {
+    return new Token(tokenType, literal, span)
   }
 }
 
+/**
+ * Makes a string token whose literal has the escape sequences decoded, still in quotes, or an error token spanning
+ * the invalid escape sequence.
+ */
+function makeStringToken(literal: string, span: Span): Token {
+  let decoded = decodeEscapes(literal.slice(1, -1))
+  if (decoded instanceof EscapeError) {
+    // the escape sequence begins after the opening quote
+    let start = span.start.after(literal.slice(0, decoded.index + 1))
+    return new Token(TokenType.err, decoded.message, new Span(span.filepath, start, start.after(decoded.sequence), span.source))
+  }
+  return new Token(TokenType.string, `"${decoded}"`, span)
+}
+
 const rumlispLexRules: Rule[] = [
-  // number and identifier
-  new Rule(/^[^ \t\r\n()\[\]{};`%"]+/, (literal, line, column) => {
-    if (/^-?\d+(\.\d+)?$/.test(literal)) {
-      return new Token(TokenType.number, literal, line, column)
-    } else {
-      return new Token(TokenType.identifier, literal, line, column)
+  // r"C:\Users" (raw strings, in which backslashes are kept as they are)
+  new Rule(/r"[^"]*"/y, (literal, span) => new Token(TokenType.string, literal.slice(1), span)),
+  new Rule(/r"/y, (_literal, span) => new Token(TokenType.err, 'unterminated raw string', span)),
+  // number and identifier; numbers are passed on in decimal, so `0xFF` is read as `255` and `0xFFn` as `255n`
+  new Rule(/[^ \t\r\n()\[\]{};`%",]+/y, (literal, span) => {
+    if (!isNumeric(literal)) {
+      return new Token(TokenType.identifier, literal, span)
+    }
+    let n = parseNumber(literal)
+    if (n === undefined) {
+      return new Token(TokenType.err, `malformed number \`${literal}\``, span)
     }
+    return new Token(TokenType.number, typeof n === 'bigint' ? `${n}n` : `${n}`, span)
   }),
-  // "hello" (strings can contain line breaks)
-  new Rule(/^".*?"/s, makeGenerator(TokenType.string)),
-  new Rule(/^\(/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\)/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\[/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\]/, makeGenerator(TokenType.symbol)),
-  new Rule(/^{/, makeGenerator(TokenType.symbol)),
-  new Rule(/^}/, makeGenerator(TokenType.symbol)),
-  new Rule(/^`/, makeGenerator(TokenType.symbol)),
-  new Rule(/^%/, makeGenerator(TokenType.symbol)),
-  new Rule(/^"/, makeGenerator(TokenType.symbol)),
-  new Rule(/^;/, makeGenerator(TokenType.symbol)),
+  // "hello\n" (strings can contain line breaks and escape sequences)
+  new Rule(/"[^"\\]*(?:\\.[^"\\]*)*"/sy, makeStringToken),
+  new Rule(/"/y, (_literal, span) => new Token(TokenType.err, 'unterminated string', span)),
+  new Rule(/\(/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\)/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\[/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\]/y, makeGenerator(TokenType.symbol)),
+  new Rule(/{/y, makeGenerator(TokenType.symbol)),
+  new Rule(/}/y, makeGenerator(TokenType.symbol)),
+  new Rule(/`/y, makeGenerator(TokenType.symbol)),
+  new Rule(/,@/y, makeGenerator(TokenType.symbol)),
+  new Rule(/,/y, makeGenerator(TokenType.symbol)),
+  new Rule(/%/y, makeGenerator(TokenType.symbol)),
+  new Rule(/;/y, makeGenerator(TokenType.symbol)),
 ]
 
 class ParenCounter {
@@ -234,10 +359,12 @@ export class Lexer {
   private sp: SourcePosition
   private rules: Rule[]
   private _parenCounter = new ParenCounter()
+  private _lastSpan: Span
 
   constructor(filepath: string, source: string, rules: Rule[] = rumlispLexRules) {
     this.sp = new SourcePosition(filepath, source)
     this.rules = rules
+    this._lastSpan = this.here
   }
 
   get eof(): boolean {
@@ -252,6 +379,20 @@ export class Lexer {
     return this.sp.column
   }
 
+  /**
+   * @returns an empty span at the current position
+   */
+  get here(): Span {
+    return this.sp.spanOf('')
+  }
+
+  /**
+   * the span of the last token resolved by `next`, where the expression being parsed ends
+   */
+  get lastSpan(): Span {
+    return this._lastSpan
+  }
+
   get parenCounter(): ParenCounter {
     return this._parenCounter
   }
@@ -261,41 +402,33 @@ export class Lexer {
   }
 
   lookNext(): UncheckedToken {
-    if (this.sp.eof) {
-      return new UncheckedToken(eofToken)
-    }
-
-    if (!this.skipWhites()) {
-      return new UncheckedToken(eofToken)
+    if (this.sp.eof || !this.skipWhites()) {
+      return new UncheckedToken(new Token(TokenType.eof, '', this.here))
     }
 
     for (let i in this.rules) {
       let rule = this.rules[i]
-      let matches = this.sp.source.match(rule.pattern)
-      if (matches !== null && matches.length > 0) {
-        let literal = matches[0]
-        let tk = rule.generator(literal, this.sp.line, this.sp.column)
+      let literal = this.sp.match(rule.pattern)
+      if (literal !== undefined) {
+        let tk = rule.generator(literal, this.sp.spanOf(literal))
         // this.sp.advance(literal.length)
         return new UncheckedToken(tk)
       }
     }
 
-    return new UncheckedToken(new Token(TokenType.err, `unexpected character series`, this.sp.line, this.sp.column))
+    return new UncheckedToken(new Token(TokenType.err, `unexpected character series`, this.here))
   }
 
   /**
    * Resolves the next token.
    */
   next(): UncheckedToken {
-    if (this.sp.eof) {
-      return new UncheckedToken(eofToken)
-    }
-
-    if (!this.skipWhites()) {
-      return new UncheckedToken(eofToken)
+    if (this.sp.eof || !this.skipWhites()) {
+      return new UncheckedToken(new Token(TokenType.eof, '', this.here))
     }
 
     let token = this.matchFirst()
+    this._lastSpan = token.span
 
     // count parentheses
     if (token.type === TokenType.symbol) {
@@ -306,7 +439,7 @@ export class Lexer {
         case ')':
           this._parenCounter.decParen()
           if (this._parenCounter.hadErr()) {
-            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', this.sp.line, this.sp.column))
+            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', token.span))
           }
           break
         case '[':
@@ -315,7 +448,7 @@ export class Lexer {
         case ']':
           this._parenCounter.decBrack()
           if (this._parenCounter.hadErr()) {
-            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', this.sp.line, this.sp.column))
+            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', token.span))
           }
           break
         case '{':
@@ -324,7 +457,7 @@ export class Lexer {
         case '}':
           this._parenCounter.decCurly()
           if (this._parenCounter.hadErr()) {
-            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', this.sp.line, this.sp.column))
+            return new UncheckedToken(new Token(TokenType.err, 'unmatched parentheses', token.span))
           }
           break
         default:
@@ -352,16 +485,15 @@ export class Lexer {
         return false
       }
       // white characters
-      else if (isWhiteChar(this.sp.source[0])) {
+      else if (isWhiteChar(this.sp.current)) {
         this.sp.advance()
       }
       // inline comment
-      else if (this.sp.source.startsWith(';')) {
+      else if (this.sp.current === ';') {
         while (!this.sp.eof) {
-          if (this.sp.source[0] !== '\n') {
-            this.sp.advance()
-          } else {
-            this.sp.advance()
+          let c = this.sp.current
+          this.sp.advance()
+          if (c === '\n') {
             break
           }
         }
@@ -380,16 +512,15 @@ export class Lexer {
 
     for (let i in this.rules) {
       let rule = this.rules[i]
-      let matches = this.sp.source.match(rule.pattern)
-      if (matches !== null && matches.length > 0) {
-        let literal = matches[0]
-        let tk = rule.generator(literal, this.sp.line, this.sp.column)
+      let literal = this.sp.match(rule.pattern)
+      if (literal !== undefined) {
+        let tk = rule.generator(literal, this.sp.spanOf(literal))
         this.sp.advance(literal.length)
         return tk
       }
     }
 
-    return new Token(TokenType.err, `unexpected character series`, this.sp.line, this.sp.column)
+    return new Token(TokenType.err, `unexpected character series`, this.here)
   }
 }
 
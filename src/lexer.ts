@@ -1,18 +1,40 @@
 import { Either, Right, Left } from "./utils"
+import { decodeEscapes, EscapeError } from "./escape"
+import { isNumeric, parseNumber } from "./number"
 
 class SourcePosition {
   source: string
   line: number
   column: number
+  /** the index of the current character in the source */
+  offset: number
 
   constructor(source: string) {
     this.source = source
     this.line = 1
     this.column = 1
+    this.offset = 0
   }
 
   get eof(): boolean {
-    return this.source.length === 0
+    return this.offset >= this.source.length
+  }
+
+  /**
+   * the character at the current position, or an empty string at the EOF
+   */
+  get current(): string {
+    return this.eof ? '' : this.source[this.offset]
+  }
+
+  /**
+   * Matches the sticky pattern at the current position.
+   * @returns the text matched, or `undefined` if not matched
+   */
+  match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.offset
+    let matches = pattern.exec(this.source)
+    return matches === null ? undefined : matches[0]
   }
 
   /**
@@ -20,14 +42,13 @@ class SourcePosition {
    */
   private advance1(): boolean {
     if (!this.eof) {
-      if (this.source[0] === '\n') {
-        this.source = this.source.slice(1)
+      if (this.source[this.offset] === '\n') {
         this.line++
         this.column = 1
       } else {
-        this.source = this.source.slice(1)
         this.column++
       }
+      this.offset++
       return true
     } else {
       return false
@@ -142,6 +163,7 @@ const initToken = new Token(TokenType.init, "")
 type Generator = (literal: string, line?: number, column?: number) => Token
 
 class Rule {
+  /** a sticky pattern, which is matched at the current position only */
   pattern: RegExp
   generator: Generator
 
@@ -157,27 +179,44 @@ function makeGenerator(tokenType: TokenType): Generator {
   }
 }
 
+/**
+ * Makes a string token whose literal has the escape sequences decoded, still in quotes.
+ */
+function makeStringToken(literal: string, line?: number, column?: number): Token {
+  let decoded = decodeEscapes(literal.slice(1, -1))
+  if (decoded instanceof EscapeError) {
+    return new Token(TokenType.err, decoded.message, line, column)
+  }
+  return new Token(TokenType.string, `"${decoded}"`, line, column)
+}
+
 const rumlispLexRules: Rule[] = [
-  // number and identifier
-  new Rule(/^[^ \t\r\n()\[\]{};`%"]+/, (literal, line, column) => {
-    if (/^-?\d+(\.\d+)?$/.test(literal)) {
-      return new Token(TokenType.number, literal, line, column)
-    } else {
+  // r"C:\Users" (raw strings, in which backslashes are kept as they are)
+  new Rule(/r"[^"]*"/y, (literal, line, column) => new Token(TokenType.string, literal.slice(1), line, column)),
+  new Rule(/r"/y, (_literal, line, column) => new Token(TokenType.err, 'unterminated raw string', line, column)),
+  // number and identifier; numbers are passed on in decimal, so `0xFF` is read as `255` and `0xFFn` as `255n`
+  new Rule(/[^ \t\r\n()\[\]{};`%"]+/y, (literal, line, column) => {
+    if (!isNumeric(literal)) {
       return new Token(TokenType.identifier, literal, line, column)
     }
+    let n = parseNumber(literal)
+    if (n === undefined) {
+      return new Token(TokenType.err, `malformed number \`${literal}\``, line, column)
+    }
+    return new Token(TokenType.number, typeof n === 'bigint' ? `${n}n` : `${n}`, line, column)
   }),
-  // "hello" (strings can contain line breaks)
-  new Rule(/^".*?"/s, makeGenerator(TokenType.string)),
-  new Rule(/^\(/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\)/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\[/, makeGenerator(TokenType.symbol)),
-  new Rule(/^\]/, makeGenerator(TokenType.symbol)),
-  new Rule(/^{/, makeGenerator(TokenType.symbol)),
-  new Rule(/^}/, makeGenerator(TokenType.symbol)),
-  new Rule(/^`/, makeGenerator(TokenType.symbol)),
-  new Rule(/^%/, makeGenerator(TokenType.symbol)),
-  new Rule(/^"/, makeGenerator(TokenType.symbol)),
-  new Rule(/^;/, makeGenerator(TokenType.symbol)),
+  // "hello\n" (strings can contain line breaks and escape sequences)
+  new Rule(/"[^"\\]*(?:\\.[^"\\]*)*"/sy, makeStringToken),
+  new Rule(/"/y, (_literal, line, column) => new Token(TokenType.err, 'unterminated string', line, column)),
+  new Rule(/\(/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\)/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\[/y, makeGenerator(TokenType.symbol)),
+  new Rule(/\]/y, makeGenerator(TokenType.symbol)),
+  new Rule(/{/y, makeGenerator(TokenType.symbol)),
+  new Rule(/}/y, makeGenerator(TokenType.symbol)),
+  new Rule(/`/y, makeGenerator(TokenType.symbol)),
+  new Rule(/%/y, makeGenerator(TokenType.symbol)),
+  new Rule(/;/y, makeGenerator(TokenType.symbol)),
 ]
 
 class ParenCounter {
@@ -261,9 +300,8 @@ export class Lexer {
 
     for (let i in this.rules) {
       let rule = this.rules[i]
-      let matches = this.sp.source.match(rule.pattern)
-      if (matches !== null && matches.length > 0) {
-        let literal = matches[0]
+      let literal = this.sp.match(rule.pattern)
+      if (literal !== undefined) {
         let tk = rule.generator(literal, this.sp.line, this.sp.column)
         // this.sp.advance(literal.length)
         return tk
@@ -342,16 +380,15 @@ export class Lexer {
         return false
       }
       // white characters
-      else if (isWhiteChar(this.sp.source[0])) {
+      else if (isWhiteChar(this.sp.current)) {
         this.sp.advance()
       }
       // inline comment
-      else if (this.sp.source.startsWith(';')) {
+      else if (this.sp.current === ';') {
         while (!this.sp.eof) {
-          if (this.sp.source[0] !== '\n') {
-            this.sp.advance()
-          } else {
-            this.sp.advance()
+          let c = this.sp.current
+          this.sp.advance()
+          if (c === '\n') {
             break
           }
         }
@@ -370,9 +407,8 @@ export class Lexer {
 
     for (let i in this.rules) {
       let rule = this.rules[i]
-      let matches = this.sp.source.match(rule.pattern)
-      if (matches !== null && matches.length > 0) {
-        let literal = matches[0]
+      let literal = this.sp.match(rule.pattern)
+      if (literal !== undefined) {
         let tk = rule.generator(literal, this.sp.line, this.sp.column)
         this.sp.advance(literal.length)
         return tk
@@ -1,29 +1,43 @@
-import { Lexer, TokenType, EOF, SyntaxError } from './lexer-except'
+import { Lexer, Token, TokenType, EOF, SyntaxError, Span } from './lexer-except'
+import { quoteString } from './escape'
+import { parseNumber } from './number'
 import { Either, Right, Left } from './utils'
+import * as path from 'path'
+import * as fs from 'fs'
 
 export class Parser {
   lexer: Lexer
+  /** the macros defined in or imported into the parsed source */
+  macros: MacroScope
 
-  constructor(filepath: string, source: string) {
+  constructor(filepath: string, source: string, macros: MacroScope = new MacroScope()) {
     this.lexer = new Lexer(filepath, source)
+    this.macros = macros
   }
 
-  parse(): Either<Expr[], string> {
+  /**
+   * @param expand whether to expand the macro calls; if not, they are left as `MacroCall`s
+   */
+  parse(expand: boolean = true): Either<Expr[], SyntaxError> {
     if (this.lexer.eof) {
-      return new Right('eof')
+      return new Right(new SyntaxError('eof'))
     }
 
     let result: Expr[] = []
 
     while (true) {
       try {
-        let res = parseExpr(this.lexer)
-        result.push(res)
+        let res = parseExpr(this.lexer, this.macros)
+        let expr = expand ? expandMacros(res) : res
+        if (expr instanceof ExprLetFunc) {
+          this.macros.functions.push(expr)
+        }
+        result.push(expr)
       } catch (e) {
         if (e instanceof EOF) {
           break
         } else if (e instanceof SyntaxError) {
-          return new Right(e.toString())
+          return new Right(e)
         } else {
           throw e
         }
@@ -34,11 +48,153 @@ export class Parser {
   }
 }
 
-const UNEXP_EOF = 'syntax error: unexpected EOF'
+const UNEXP_EOF = 'unexpected EOF'
+
+/**
+ * @param start the span of the opening parenthesis before the keyword
+ */
+type SyntaxHandler = (lexer: Lexer, macros: MacroScope, start: Span) => ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | ExprExec | ExprIf | ExprCond | ExprWhen | ExprCase | ExprMatch | ExprTry | Macro | ProcMacro | MacroExport
+
+export type MacroDefinition = Macro | ProcMacro
+
+/**
+ * Expands a call to a procedural macro by evaluating its function on the argument forms.
+ * @throws {SyntaxError} if the evaluation fails or does not result in code
+ */
+export type ProcMacroExpander = (macro: ProcMacro, args: Expr[], location: Span) => Expr
+
+/**
+ * Macros visible to a source file. Macros defined in a file are only visible in the file, unless exported by
+ * `macro-export` and imported by `import` in another file.
+ */
+export class MacroScope {
+  /** the scope whose macros are visible but may be shadowed, e.g. that of the prelude */
+  parent?: MacroScope
+  macros: Map<string, MacroDefinition> = new Map()
+  exports: Set<string> = new Set()
+  /** the top-level functions defined so far in the source, which its procedural macros can call */
+  functions: ExprLetFunc[] = []
+  /** the evaluator of procedural macros, which child scopes inherit */
+  expander?: ProcMacroExpander
+
+  constructor(parent?: MacroScope, expander?: ProcMacroExpander) {
+    this.parent = parent
+    this.expander = expander
+  }
+
+  /**
+   * Makes a scope for a new source file that sees the macros of this one.
+   */
+  child(): MacroScope {
+    return new MacroScope(this)
+  }
+
+  lookup(name: string): MacroDefinition | undefined {
+    let scope: MacroScope | undefined = this
+    while (scope !== undefined) {
+      let macro = scope.macros.get(name)
+      if (macro !== undefined) {
+        return macro
+      }
+      scope = scope.parent
+    }
+    return undefined
+  }
+
+  /**
+   * @throws {SyntaxError} if another macro of the same name is already in this scope
+   */
+  define(macro: MacroDefinition, location: Span) {
+    let existing = this.macros.get(macro.name)
+    if (existing !== undefined && existing !== macro) {
+      throw new SyntaxError(`macro '${macro.name}' defined${existing.location} is redefined`, location)
+    }
+    this.macros.set(macro.name, macro)
+  }
+
+  getExpander(): ProcMacroExpander | undefined {
+    let scope: MacroScope | undefined = this
+    while (scope !== undefined) {
+      if (scope.expander !== undefined) {
+        return scope.expander
+      }
+      scope = scope.parent
+    }
+    return undefined
+  }
+
+  /**
+   * Imports the exported macros of the module at the path. Modules that cannot be read or parsed are ignored here,
+   * since the `import` builtin reports them when evaluated.
+   */
+  importFrom(abspath: string, location: Span) {
+    let content: string
+    try {
+      content = fs.readFileSync(abspath).toString()
+    } catch (e) {
+      return
+    }
+
+    let mod = parseModule(abspath, content, this.parent)
+    if (mod === undefined || !mod.isLeft()) {
+      return
+    }
+
+    let scope = mod.unwrapLeft().macros
+    scope.exports.forEach(name => {
+      let macro = scope.macros.get(name)
+      if (macro === undefined) throw new Error('not possible')
+      this.define(macro, location)
+    })
+  }
+}
+
+/** A parsed source file that can be imported. */
+export class Module {
+  abspath: string
+  content: string
+  exprs: Expr[]
+  macros: MacroScope
+
+  constructor(abspath: string, content: string, exprs: Expr[], macros: MacroScope) {
+    this.abspath = abspath
+    this.content = content
+    this.exprs = exprs
+    this.macros = macros
+  }
+}
+
+/** parsed modules by their absolute paths; `undefined` while a module is being parsed */
+const moduleCache: Map<string, Module | undefined> = new Map()
 
-type SyntaxHandler = (lexer: Lexer) => ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | ExprExec | Macro
+/**
+ * Parses a module, or gets it from the cache if the content is not changed, so that a module imported both for its
+ * macros and for its values is parsed only once, and its macros are the same ones.
+ * @param base the scope of macros visible to every module, e.g. that of the prelude
+ * @returns `undefined` if the module is already being parsed, i.e. imported circularly
+ */
+export function parseModule(abspath: string, content: string, base?: MacroScope): Either<Module, SyntaxError> | undefined {
+  if (moduleCache.has(abspath)) {
+    let cached = moduleCache.get(abspath)
+    if (cached === undefined) {
+      return undefined
+    } else if (cached.content === content) {
+      return new Left(cached)
+    }
+  }
 
-const macroReg: Map<string, Macro> = new Map()
+  moduleCache.set(abspath, undefined)
+  const parser = new Parser(abspath, content, new MacroScope(base))
+  let ast = parser.parse()
+  if (ast.isLeft()) {
+    let mod = new Module(abspath, content, ast.unwrapLeft(), parser.macros)
+    moduleCache.set(abspath, mod)
+    return new Left(mod)
+  } else {
+    moduleCache.delete(abspath)
+    return new Right(ast.unwrapRight())
+  }
+}
 
 // reserved identifiers
 export const KEYWORD: {[keys: string]: SyntaxHandler | undefined} = {
@@ -46,40 +202,71 @@ export const KEYWORD: {[keys: string]: SyntaxHandler | undefined} = {
   '\\': parseLambda,
   'do': parseDo,
   '@': parseExprExec,
+  'if': parseIf,
+  'cond': parseCond,
+  'when': parseWhen,
+  'unless': (lexer, macros, start) => parseWhen(lexer, macros, start, true),
+  'case': parseCase,
+  'match': parseMatch,
+  'try': parseTry,
   'macro': parseMacro,
+  'macro-export': parseMacroExport,
+  'defmacro': parseProcMacro,
+}
+
+export type Expr = Literal | Var | SExpr | ListExpr | DictExpr | ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | ExprExec | ExprIf | ExprCond | ExprWhen | ExprCase | ExprMatch | ExprTry | Macro | ProcMacro | MacroExport | MacroCall | Quasiquote
+
+/**
+ * Reads a number token, which the lexer has checked and written in decimal.
+ */
+function numberOf(token: Token): number | bigint {
+  let n = parseNumber(token.literal)
+  if (n === undefined) {
+    throw new SyntaxError(`malformed number \`${token.literal}\``, token.span)
+  }
+  return n
 }
 
-export type Expr = number | string | Var | SExpr | ListExpr | DictExpr | ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | ExprExec | Macro
+/**
+ * Reads a number or string token as a literal.
+ */
+function literalOf(token: Token): Literal {
+  let value = token.type === TokenType.number ? numberOf(token) : token.literal.slice(1, -1)
+  return new Literal(value, token.span)
+}
 
-function parseExpr(lexer: Lexer): Expr {
+function parseExpr(lexer: Lexer, macros: MacroScope): Expr {
   if (lexer.eof) {
     throw new EOF()
   }
 
   let token = lexer.next().check()
-  if (token.type === TokenType.number) {
-    return parseFloat(token.literal)
-  } else if (token.type === TokenType.string) {
-    return token.literal.slice(1, token.literal.length - 1)
+  if (token.type === TokenType.number || token.type === TokenType.string) {
+    return literalOf(token)
   } else if (token.type === TokenType.symbol) {
     switch (token.literal) {
       case '(':
-        return parseSExpr(lexer)
+        return parseSExpr(lexer, macros, token.span)
       case '[':
-        return parseListExpr(lexer)
+        return parseListExpr(lexer, macros, token.span)
       case '{':
-        return parseDictExpr(lexer)
+        return parseDictExpr(lexer, macros, token.span)
+      case '`':
+        return parseQuasiquote(lexer, macros, token.span)
+      case ',':
+      case ',@':
+        throw new SyntaxError(`'${token.literal}' outside of quasiquote`, token.span)
       default:
-        throw new SyntaxError(`unexpected '${token.literal}'${token.locate()}`)
+        throw new SyntaxError(`unexpected '${token.literal}'`, token.span)
     }
   } else if (token.type === TokenType.identifier) {
     if (KEYWORD[token.literal] !== undefined) {
-      throw new SyntaxError(`unexpected keyword ${token.literal}${token.locate()}`)
+      throw new SyntaxError(`unexpected keyword ${token.literal}`, token.span)
     } else {
-      return new Var(token.literal, token.locate())
+      return new Var(token.literal, token.span)
     }
   } else if (token.type === TokenType.err) {
-    throw new SyntaxError(token.toString())
+    throw new SyntaxError(token.literal, token.span)
   } else if (token.type === TokenType.eof) {
     throw new EOF()
   } else {
@@ -87,22 +274,36 @@ function parseExpr(lexer: Lexer): Expr {
   }
 }
 
+/** A number, an Integer or a string. */
+export class Literal {
+  value: number | bigint | string
+  location: Span
+
+  constructor(value: number | bigint | string, location: Span) {
+    this.value = value
+    this.location = location
+  }
+}
+
 export class Var {
   id: string
-  location: string
+  location: Span
+  /** for free identifiers introduced by a macro body, the macro in whose defining environment they are resolved */
+  macro?: Macro
 
-  constructor(id: string, location: string) {
+  constructor(id: string, location: Span, macro?: Macro) {
     this.id = id
     this.location = location
+    this.macro = macro
   }
 }
 
 export class SExpr {
   caller?: Expr
   args: Expr[]
-  location: string
+  location: Span
 
-  constructor(items: Expr[], location: string) {
+  constructor(items: Expr[], location: Span) {
     if (items.length === 0) {
       this.caller = undefined
       this.args = []
@@ -117,26 +318,24 @@ export class SExpr {
   }
 }
 
-function parseSExpr(lexer: Lexer): SExpr | ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | Macro {
+function parseSExpr(lexer: Lexer, macros: MacroScope, start: Span): SExpr | ExprLetVar | ExprLetFunc | ExprLambda | ExprDo | ExprExec | ExprIf | ExprCond | ExprWhen | ExprCase | ExprMatch | ExprTry | MacroDefinition | MacroExport | MacroCall {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let location = ` at line ${lexer.line}, column ${lexer.column}`
-
   let items: Expr[] = []
 
   let token = lexer.lookNext().check()
   let handler = KEYWORD[token.literal]
   if (handler !== undefined) {
     lexer.next()
-    return handler(lexer)
+    return handler(lexer, macros, start)
   }
 
-  let macro = macroReg.get(token.literal)
+  let macro = token.type === TokenType.identifier ? macros.lookup(token.literal) : undefined
 
   while (!(token.type === TokenType.symbol && token.literal === ')')) {
-    let expr = parseExpr(lexer)
+    let expr = parseExpr(lexer, macros)
 
     items.push(expr)
 
@@ -145,33 +344,42 @@ function parseSExpr(lexer: Lexer): SExpr | ExprLetVar | ExprLetFunc | ExprLambda
 
   // cast off ')' symbol
   lexer.next()
+  let location = start.to(lexer.lastSpan)
 
   if (macro !== undefined) {
-    return expandMacro(macro, items, location)
-  } else {
-    return new SExpr(items, location)
+    return new MacroCall(macro, items, location, macros)
+  }
+
+  // (import "path") also imports the exported macros of the module before the rest of the source is parsed
+  let [head, file] = items
+  if (head instanceof Var && head.id === 'import' && file instanceof Literal && typeof file.value === 'string') {
+    macros.importFrom(path.resolve(file.value), location)
   }
+
+  return new SExpr(items, location)
 }
 
 export class ListExpr {
   items: Expr[]
+  location: Span
 
-  constructor(items: Expr[]) {
+  constructor(items: Expr[], location: Span) {
     this.items = items
+    this.location = location
   }
 }
 
-function parseListExpr(lexer: Lexer): ListExpr {
+function parseListExpr(lexer: Lexer, macros: MacroScope, start: Span): ListExpr {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let result = new ListExpr([])
+  let items: Expr[] = []
   let token = lexer.lookNext().check()
   while (!(token.type === TokenType.symbol && token.literal === ']')) {
-    let expr = parseExpr(lexer)
+    let expr = parseExpr(lexer, macros)
 
-    result.items.push(expr)
+    items.push(expr)
 
     token = lexer.lookNext().check()
   }
@@ -179,7 +387,7 @@ function parseListExpr(lexer: Lexer): ListExpr {
   // cast off ']' symbol
   lexer.next()
 
-  return result
+  return new ListExpr(items, start.to(lexer.lastSpan))
 }
 
 export class DictEntry {
@@ -192,43 +400,45 @@ export class DictEntry {
   }
 }
 
-function parseDictEntry(lexer: Lexer): DictEntry {
+function parseDictEntry(lexer: Lexer, macros: MacroScope): DictEntry {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let key = parseExpr(lexer)
-  let value = parseExpr(lexer)
+  let key = parseExpr(lexer, macros)
+  let value = parseExpr(lexer, macros)
   let token = lexer.next().check()
   if (token.type === TokenType.symbol && token.literal === ')') {
     return new DictEntry(key, value)
   } else {
-    throw new SyntaxError(`expected ')'${token.locate()}`)
+    throw new SyntaxError(`expected ')'`, token.span)
   }
 }
 
 export class DictExpr {
   entries: DictEntry[]
+  location: Span
 
-  constructor(entries: DictEntry[]) {
+  constructor(entries: DictEntry[], location: Span) {
     this.entries = entries
+    this.location = location
   }
 }
 
-function parseDictExpr(lexer: Lexer): DictExpr {
+function parseDictExpr(lexer: Lexer, macros: MacroScope, start: Span): DictExpr {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let result = new DictExpr([])
+  let entries: DictEntry[] = []
   let token_ = lexer.lookNext().check()
   while (!(token_.type === TokenType.symbol && token_.literal === '}')) {
     let token = lexer.next().check()
     if (token.type === TokenType.symbol && token.literal === '(') {
-      let entry = parseDictEntry(lexer)
-      result.entries.push(entry)
+      let entry = parseDictEntry(lexer, macros)
+      entries.push(entry)
     } else {
-      throw new SyntaxError(`expected '('${token.locate()}`)
+      throw new SyntaxError(`expected '('`, token.span)
     }
 
     token_ = lexer.lookNext().check()
@@ -237,16 +447,18 @@ function parseDictExpr(lexer: Lexer): DictExpr {
   // cast off '}' symbol
   lexer.next()
 
-  return result
+  return new DictExpr(entries, start.to(lexer.lastSpan))
 }
 
 export class ExprLetVar {
   id: string
   expr: Expr
+  location: Span
 
-  constructor(id: string, expr: Expr) {
+  constructor(id: string, expr: Expr, location: Span) {
     this.id = id
     this.expr = expr
+    this.location = location
   }
 }
 
@@ -254,9 +466,9 @@ export class ExprLetFunc {
   id: string
   params: string[]
   body: Expr
-  location: string
+  location: Span
 
-  constructor(id: string, params: string[], body: Expr, location: string) {
+  constructor(id: string, params: string[], body: Expr, location: Span) {
     this.id = id
     this.params = params
     this.body = body
@@ -264,53 +476,50 @@ export class ExprLetFunc {
   }
 }
 
-function parseLet(lexer: Lexer): ExprLetVar | ExprLetFunc {
+function parseLet(lexer: Lexer, macros: MacroScope, start: Span): ExprLetVar | ExprLetFunc {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
   let token = lexer.next().check()
   if (token.type === TokenType.identifier) {
     if (KEYWORD[token.literal] !== undefined) {
-      throw new SyntaxError(`unexpected keyword ${token.literal}${token.locate()}`)
+      throw new SyntaxError(`unexpected keyword ${token.literal}`, token.span)
     }
-    return parseLetVar(lexer, token.literal)
+    return parseLetVar(lexer, macros, token.literal, start)
   } else if (token.type === TokenType.symbol && token.literal === '(') {
-    return parseLetFunc(lexer)
+    return parseLetFunc(lexer, macros, start)
   } else {
-    throw new SyntaxError(`expected IDENTIFIER or '('${token.locate()}`)
+    throw new SyntaxError(`expected IDENTIFIER or '('`, token.span)
   }
 }
 
-function parseLetVar(lexer: Lexer, id: string): ExprLetVar {
+function parseLetVar(lexer: Lexer, macros: MacroScope, id: string, start: Span): ExprLetVar {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let expr = parseExpr(lexer)
-
-  let elv = new ExprLetVar(id, expr)
+  let expr = parseExpr(lexer, macros)
 
   let token = lexer.next().check()
   if (!(token.type === TokenType.symbol && token.literal === ')')) {
-    throw new SyntaxError(`expected ')'${token.locate()}`)
+    throw new SyntaxError(`expected ')'`, token.span)
   }
 
-  return elv
+  return new ExprLetVar(id, expr, start.to(token.span))
 }
 
-function parseLetFunc(lexer: Lexer): ExprLetFunc {
+function parseLetFunc(lexer: Lexer, macros: MacroScope, start: Span): ExprLetFunc {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
   let token = lexer.next().check()
   if (token.type === TokenType.identifier) {
     if (KEYWORD[token.literal] !== undefined) {
-      throw new SyntaxError(`unexpected keyword ${token.literal}${token.locate()}`)
+      throw new SyntaxError(`unexpected keyword ${token.literal}`, token.span)
     } else {
       let id = token.literal
-      let location = token.locate()
       let params: string[] = []
 
       let paren = lexer.saveParenCounter()
@@ -318,7 +527,7 @@ function parseLetFunc(lexer: Lexer): ExprLetFunc {
 
       while (!paren.eq(lexer.parenCounter)) {
         if (lexer.eof) {
-          throw new SyntaxError(UNEXP_EOF)
+          throw new SyntaxError(UNEXP_EOF, lexer.here)
         }
 
         token = lexer.next().check()
@@ -326,50 +535,49 @@ function parseLetFunc(lexer: Lexer): ExprLetFunc {
           break
         } else if (token.type === TokenType.identifier) {
           if (KEYWORD[token.literal] !== undefined) {
-            throw new SyntaxError(`unexpected keyword ${token.literal}${token.locate()}`)
+            throw new SyntaxError(`unexpected keyword ${token.literal}`, token.span)
           } else {
             params.push(token.literal)
           }
         } else {
-          throw new SyntaxError(`expected IDENTIFIER${token.locate()}`)
+          throw new SyntaxError(`expected IDENTIFIER`, token.span)
         }
       }
 
-      let body = parseExpr(lexer)
+      let body = parseExpr(lexer, macros)
 
       token = lexer.next().check()
       if (!(token.type === TokenType.symbol && token.literal === ')')) {
-        throw new SyntaxError(`expected ')'${token.locate()}`)
+        throw new SyntaxError(`expected ')'`, token.span)
       }
 
-      return new ExprLetFunc(id, params, body, location)
+      return new ExprLetFunc(id, params, body, start.to(token.span))
     }
   } else {
-    throw new SyntaxError(`expected IDENTIFIER${token.locate()}`)
+    throw new SyntaxError(`expected IDENTIFIER`, token.span)
   }
 }
 
 export class ExprLambda {
   args: string[]
   body: Expr
-  location: string
+  location: Span
 
-  constructor(args: string[], body: Expr, location: string) {
+  constructor(args: string[], body: Expr, location: Span) {
     this.args = args
     this.body = body
     this.location = location
   }
 }
 
-function parseLambda(lexer: Lexer): ExprLambda {
+function parseLambda(lexer: Lexer, macros: MacroScope, start: Span): ExprLambda {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
-  let location = ` at line ${lexer.line}, column ${lexer.column}`
 
   let token = lexer.next().check()
   if (!(token.type === TokenType.symbol && token.literal === '(')) {
-    throw new SyntaxError(`expected '('${token.locate()}`)
+    throw new SyntaxError(`expected '('`, token.span)
   }
 
   let paren = lexer.saveParenCounter()
@@ -377,7 +585,7 @@ function parseLambda(lexer: Lexer): ExprLambda {
   let args: string[] = []
   while (!paren.eq(lexer.parenCounter)) {
     if (lexer.eof) {
-      throw new SyntaxError(UNEXP_EOF)
+      throw new SyntaxError(UNEXP_EOF, lexer.here)
     }
 
     token = lexer.next().check()
@@ -386,37 +594,39 @@ function parseLambda(lexer: Lexer): ExprLambda {
     } else if (token.type === TokenType.identifier) {
       args.push(token.literal)
     } else {
-      throw new SyntaxError(`expected IDENTIFIER${token.locate()}`)
+      throw new SyntaxError(`expected IDENTIFIER`, token.span)
     }
   }
 
-  let body = parseExpr(lexer)
+  let body = parseExpr(lexer, macros)
 
   token = lexer.next().check()
   if (!(token.type === TokenType.symbol && token.literal === ')')) {
-    throw new SyntaxError(`expected ')'${token.locate()}`)
+    throw new SyntaxError(`expected ')'`, token.span)
   }
 
-  return new ExprLambda(args, body, location)
+  return new ExprLambda(args, body, start.to(token.span))
 }
 
 export class ExprDo {
   exprs: Expr[]
+  location: Span
 
-  constructor(exprs: Expr[]) {
+  constructor(exprs: Expr[], location: Span) {
     this.exprs = exprs
+    this.location = location
   }
 }
 
-function parseDo(lexer: Lexer): ExprDo {
+function parseDo(lexer: Lexer, macros: MacroScope, start: Span): ExprDo {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
   let exprs: Expr[] = []
   let token = lexer.lookNext().check()
   while (!(token.type === TokenType.symbol && token.literal === ')')) {
-    let expr = parseExpr(lexer)
+    let expr = parseExpr(lexer, macros)
     exprs.push(expr)
 
     token = lexer.lookNext().check()
@@ -425,30 +635,28 @@ function parseDo(lexer: Lexer): ExprDo {
   // cast off ')' symbol
   lexer.next()
 
-  return new ExprDo(exprs)
+  return new ExprDo(exprs, start.to(lexer.lastSpan))
 }
 
 export class ExprExec {
   exprs: Expr[]
-  location: string
+  location: Span
 
-  constructor(exprs: Expr[], location: string) {
+  constructor(exprs: Expr[], location: Span) {
     this.exprs = exprs
     this.location = location
   }
 }
 
-function parseExprExec(lexer: Lexer): ExprExec {
+function parseExprExec(lexer: Lexer, macros: MacroScope, start: Span): ExprExec {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
-  let location = ` at line ${lexer.line}, column ${lexer.column}`
-
   let exprs: Expr[] = []
   let token = lexer.lookNext().check()
   while (!(token.type === TokenType.symbol && token.literal === ')')) {
-    let expr = parseExpr(lexer)
+    let expr = parseExpr(lexer, macros)
     exprs.push(expr)
 
     token = lexer.lookNext().check()
@@ -457,167 +665,926 @@ function parseExprExec(lexer: Lexer): ExprExec {
   // skip ')'
   lexer.next()
 
-  return new ExprExec(exprs, location)
+  return new ExprExec(exprs, start.to(lexer.lastSpan))
 }
 
-export class Macro {
-  name: string
-  pattern: MacroPattern
-  body: MacroExpr
-  location: string
+/**
+ * `(if cond then else)`, or `(if cond then)` which evaluates to `()` if the condition is false. The branches can also
+ * be marked as in `(if cond then a else b)`.
+ */
+export class ExprIf {
+  cond: Expr
+  consequent: Expr
+  alternative?: Expr
+  location: Span
+
+  constructor(cond: Expr, consequent: Expr, alternative: Expr | undefined, location: Span) {
+    this.cond = cond
+    this.consequent = consequent
+    this.alternative = alternative
+    this.location = location
+  }
+}
 
-  constructor(name: string, args: MacroArg[], body: MacroExpr, location: string) {
-    this.name = name
-    this.pattern = new MacroPattern(this, args)
+function parseIf(lexer: Lexer, macros: MacroScope, start: Span): ExprIf {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let cond = parseExpr(lexer, macros)
+
+  let token = lexer.lookNext().check()
+  let marked = token.type === TokenType.identifier && token.literal === 'then'
+  if (marked) {
+    lexer.next()
+  }
+  let consequent = parseExpr(lexer, macros)
+
+  let alternative: Expr | undefined = undefined
+  token = lexer.lookNext().check()
+  if (marked && token.type === TokenType.identifier && token.literal === 'else') {
+    lexer.next()
+    alternative = parseExpr(lexer, macros)
+  } else if (!marked && !(token.type === TokenType.symbol && token.literal === ')')) {
+    alternative = parseExpr(lexer, macros)
+  }
+
+  token = lexer.next().check()
+  if (!(token.type === TokenType.symbol && token.literal === ')')) {
+    throw new SyntaxError(`expected ')'`, token.span)
+  }
+
+  return new ExprIf(cond, consequent, alternative, start.to(token.span))
+}
+
+/**
+ * `(test body)` in a cond expression, whose body is evaluated if the test is true.
+ */
+export class CondClause {
+  test: Expr
+  body: Expr
+  location: Span
+
+  constructor(test: Expr, body: Expr, location: Span) {
+    this.test = test
     this.body = body
     this.location = location
   }
+}
 
-  /**
-   * @returns `false` if a macro of the same named had been registered.
-   */
-  register(): boolean {
-    if (macroReg.has(this.name)) {
-      return false
+/**
+ * `(cond clauses... (else body)?)`: evaluates to the body of the first clause whose test is true, to the else body if
+ * none is, or to `()` if there is no else clause.
+ */
+export class ExprCond {
+  clauses: CondClause[]
+  otherwise?: Expr
+  location: Span
+
+  constructor(clauses: CondClause[], otherwise: Expr | undefined, location: Span) {
+    this.clauses = clauses
+    this.otherwise = otherwise
+    this.location = location
+  }
+}
+
+/**
+ * Parses the clauses of a cond or case expression up to its closing parenthesis, each with the parser given and the
+ * last one possibly `(else body)`.
+ * @returns the else body, if any
+ */
+function parseClauses(lexer: Lexer, macros: MacroScope, parseClause: (start: Span) => void): Expr | undefined {
+  let otherwise: Expr | undefined = undefined
+  let token = lexer.next().check()
+  while (!(token.type === TokenType.symbol && token.literal === ')')) {
+    if (otherwise !== undefined) {
+      throw new SyntaxError(`expected ')' after the else clause`, token.span)
     }
-    macroReg.set(this.name, this)
-    return true
+    if (!(token.type === TokenType.symbol && token.literal === '(')) {
+      throw new SyntaxError(`expected '('`, token.span)
+    }
+    let clauseStart = token.span
+
+    token = lexer.lookNext().check()
+    if (token.type === TokenType.identifier && token.literal === 'else') {
+      lexer.next()
+      otherwise = parseExpr(lexer, macros)
+      token = lexer.next().check()
+      if (!(token.type === TokenType.symbol && token.literal === ')')) {
+        throw new SyntaxError(`expected ')'`, token.span)
+      }
+    } else {
+      parseClause(clauseStart)
+    }
+
+    token = lexer.next().check()
   }
+  return otherwise
 }
 
-function parseMacro(lexer: Lexer): Macro {
+function parseCond(lexer: Lexer, macros: MacroScope, start: Span): ExprCond {
   if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
-  let location = ` at line ${lexer.line}, column ${lexer.column}`
 
-  let token = lexer.next().check()
-  if (!(token.type === TokenType.symbol && token.literal === '(')) {
-    throw new SyntaxError(`expected '('${token.locate()}`)
-  }
+  let clauses: CondClause[] = []
+  let otherwise = parseClauses(lexer, macros, clauseStart => {
+    let test = parseExpr(lexer, macros)
+    let body = parseExpr(lexer, macros)
+    let token = lexer.next().check()
+    if (!(token.type === TokenType.symbol && token.literal === ')')) {
+      throw new SyntaxError(`expected ')'`, token.span)
+    }
+    clauses.push(new CondClause(test, body, clauseStart.to(token.span)))
+  })
 
-  token = lexer.next().check()
-  if (!(token.type === TokenType.identifier)) {
-    throw new SyntaxError(`syntax error: expected IDENTIFIER${token.locate()}`)
+  return new ExprCond(clauses, otherwise, start.to(lexer.lastSpan))
+}
+
+/**
+ * `(when cond body...)` or `(unless cond body...)`: evaluates the body expressions in order if the condition is true,
+ * or false for `unless`, to the value of the last one; otherwise to `()`.
+ */
+export class ExprWhen {
+  cond: Expr
+  body: Expr[]
+  negated: boolean
+  location: Span
+
+  constructor(cond: Expr, body: Expr[], negated: boolean, location: Span) {
+    this.cond = cond
+    this.body = body
+    this.negated = negated
+    this.location = location
   }
-  let name = token.literal
+}
 
-  let args: MacroArg[] = []
-  token = lexer.lookNext().check()
-  if (token.type === TokenType.symbol && token.literal === ')') {
-    throw new SyntaxError(`expected macro argument list`)
+function parseWhen(lexer: Lexer, macros: MacroScope, start: Span, negated: boolean = false): ExprWhen {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
   }
 
+  let cond = parseExpr(lexer, macros)
+
+  let body: Expr[] = []
+  let token = lexer.lookNext().check()
   while (!(token.type === TokenType.symbol && token.literal === ')')) {
-    let arg = parseMacroArg(lexer, args)
-    args.push(arg)
+    body.push(parseExpr(lexer, macros))
     token = lexer.lookNext().check()
   }
+  if (body.length === 0) {
+    throw new SyntaxError(`expected the body of '${negated ? 'unless' : 'when'}'`, token.span)
+  }
 
-  // skip ')'
+  // cast off ')' symbol
   lexer.next()
 
-  let expr = parseMacroExpr(lexer)
+  return new ExprWhen(cond, body, negated, start.to(lexer.lastSpan))
+}
+
+/**
+ * `(value body)` or `((values...) body)` in a case expression, whose body is evaluated if the key equals one of the
+ * values, which are literals.
+ */
+export class CaseClause {
+  values: Expr[]
+  body: Expr
+  location: Span
 
-  let macro = new Macro(name, args, expr, location)
-  if (!macro.register()) {
-    let m = macroReg.get(name)
-    // throw new SyntaxError(`redefined macro '${name}'${location}`)
-    if (m === undefined) throw 'not possible'
-    macro = m
+  constructor(values: Expr[], body: Expr, location: Span) {
+    this.values = values
+    this.body = body
+    this.location = location
   }
+}
 
-  // skip ')'
-  lexer.next()
+/**
+ * `(case key clauses... (else body)?)`: evaluates to the body of the first clause with a value equal to the key, as by
+ * `=`, to the else body if there is none, or to `()` if there is no else clause.
+ */
+export class ExprCase {
+  key: Expr
+  clauses: CaseClause[]
+  otherwise?: Expr
+  location: Span
 
-  return macro
+  constructor(key: Expr, clauses: CaseClause[], otherwise: Expr | undefined, location: Span) {
+    this.key = key
+    this.clauses = clauses
+    this.otherwise = otherwise
+    this.location = location
+  }
 }
 
-type MacroArg = number | string | Var | MacroArgStruct | MacroArgSection | MacroArgSelector | MacroArgParen |  MacroArgRepeat
+/**
+ * Tests whether the expression is a literal that can be a value of a case clause: a number, a string, `#t` or `#f`.
+ */
+function isCaseValue(expr: Expr): boolean {
+  return expr instanceof Literal || (expr instanceof Var && (expr.id === '#t' || expr.id === '#f'))
+}
 
-type MacroStruct = 'expr' | 'token' | 'number' | 'string' | 'ident'
+function parseCase(lexer: Lexer, macros: MacroScope, start: Span): ExprCase {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
 
-class MacroArgStruct {
-  name: string | undefined
-  struct: MacroStruct
+  let key = parseExpr(lexer, macros)
 
-  constructor(name: string | undefined, struct: MacroStruct) {
-    this.name = name
-    this.struct = struct
+  const parseValue = () => {
+    let token = lexer.lookNext().check()
+    let value = parseExpr(lexer, macros)
+    if (!isCaseValue(value)) {
+      throw new SyntaxError(`expected a number, a string, '#t' or '#f' as the value of a case clause`, token.span)
+    }
+    return value
   }
-}
 
-class MacroArgSection {
-  name: string | undefined
-  subs: MacroArg[] // >= 1
+  let clauses: CaseClause[] = []
+  let otherwise = parseClauses(lexer, macros, clauseStart => {
+    let values: Expr[] = []
+    let token = lexer.lookNext().check()
+    if (token.type === TokenType.symbol && token.literal === '(') {
+      lexer.next()
+      token = lexer.lookNext().check()
+      while (!(token.type === TokenType.symbol && token.literal === ')')) {
+        values.push(parseValue())
+        token = lexer.lookNext().check()
+      }
+      lexer.next()
+    } else {
+      values.push(parseValue())
+    }
 
-  constructor(name: string | undefined, subs: MacroArg[]) {
-    this.name = name
-    this.subs = subs
-  }
+    let body = parseExpr(lexer, macros)
+    token = lexer.next().check()
+    if (!(token.type === TokenType.symbol && token.literal === ')')) {
+      throw new SyntaxError(`expected ')'`, token.span)
+    }
+    clauses.push(new CaseClause(values, body, clauseStart.to(token.span)))
+  })
+
+  return new ExprCase(key, clauses, otherwise, start.to(lexer.lastSpan))
 }
 
-class MacroArgSelector {
-  name: string | undefined
-  subs: MacroArg[] // >= 2
+/**
+ * A literal pattern, matching the values equal to it: a number, a string, `#t`, `#f` or `()`.
+ */
+export class LiteralPattern {
+  value: Expr
 
-  constructor(name: string | undefined, subs: MacroArg[]) {
-    this.name = name
-    this.subs = subs
+  constructor(value: Expr) {
+    this.value = value
   }
 }
 
-class MacroArgParen {
-  type: '(' | '[' | '{'
-  subs: MacroArg[]
+/**
+ * A variable pattern, matching any value and binding it to the name, or only matching it if the name is `_`.
+ */
+export class VarPattern {
+  id: string
 
-  constructor(type: '(' | '[' | '{', subs: MacroArg[]) {
-    this.type = type
-    this.subs = subs
+  constructor(id: string) {
+    this.id = id
   }
 }
 
-class MacroArgRepeat {
-  name: string | undefined
-  selector: '?' | '*' | '+'
-  arg: MacroArg
+/**
+ * `[items... (& rest)?]`, matching the lists with as many items as the item patterns, or at least as many if there is
+ * a rest pattern, which matches the list of the remaining items.
+ */
+export class ListPattern {
+  items: Pattern[]
+  rest?: Pattern
 
-  constructor(selector: '?' | '*' | '+', arg: MacroArg) {
-    this.selector = selector
-    this.arg = arg
+  constructor(items: Pattern[], rest: Pattern | undefined) {
+    this.items = items
+    this.rest = rest
   }
 }
 
 /**
- * @param args for repeaters to retrieve the last parsed macro argument
+ * `{(key pattern)...}`, matching the dicts that have the keys, which are literals, with values matching the patterns.
+ * Other keys of the dicts are ignored.
  */
-function parseMacroArg(lexer: Lexer, args: MacroArg[]): MacroArg {
-  if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+export class DictPattern {
+  keys: Expr[]
+  values: Pattern[]
+
+  constructor(keys: Expr[], values: Pattern[]) {
+    this.keys = keys
+    this.values = values
   }
+}
 
-  let token = lexer.next().check()
-  if (token.type === TokenType.number) {
-    let n = parseFloat(token.literal)
-    // if (isNaN(n)) {
-    //   throw new Error('number NaN')
-    // }
-    return n
-  } else if (token.type === TokenType.string) {
-    return token.literal.slice(1, -1)
-  } else if (token.type === TokenType.identifier) {
-    return new Var(token.literal, token.locate())
-  } else if (token.type === TokenType.symbol) {
+export type Pattern = LiteralPattern | VarPattern | ListPattern | DictPattern
+
+/**
+ * Reads the pattern written as the expression.
+ * @throws {SyntaxError} if the expression is not a pattern, or if it binds a variable twice
+ */
+function toPattern(expr: Expr, bound: string[] = []): Pattern {
+  if (isCaseValue(expr) || (expr instanceof SExpr && expr.isUnit)) {
+    return new LiteralPattern(expr)
+  } else if (expr instanceof Var) {
+    if (KEYWORD[expr.id] !== undefined || expr.id === '&') {
+      throw new SyntaxError(`unexpected '${expr.id}' in a pattern`, expr.location)
+    }
+    if (expr.id !== '_') {
+      if (bound.indexOf(expr.id) >= 0) {
+        throw new SyntaxError(`variable '${expr.id}' is bound twice in a pattern`, expr.location)
+      }
+      bound.push(expr.id)
+    }
+    return new VarPattern(expr.id)
+  } else if (expr instanceof ListExpr) {
+    let items: Pattern[] = []
+    let rest: Pattern | undefined = undefined
+    for (let i = 0; i < expr.items.length; i++) {
+      let item = expr.items[i]
+      if (item instanceof Var && item.id === '&') {
+        if (i !== expr.items.length - 2) {
+          throw new SyntaxError(`expected a single pattern after '&'`, item.location)
+        }
+        rest = toPattern(expr.items[i + 1], bound)
+        break
+      }
+      items.push(toPattern(item, bound))
+    }
+    return new ListPattern(items, rest)
+  } else if (expr instanceof DictExpr) {
+    let keys: Expr[] = []
+    let values: Pattern[] = []
+    for (let i = 0; i < expr.entries.length; i++) {
+      let { key, value } = expr.entries[i]
+      if (!isCaseValue(key)) {
+        throw new SyntaxError(`expected a number, a string, '#t' or '#f' as a key of a dict pattern`, key.location)
+      }
+      keys.push(key)
+      values.push(toPattern(value, bound))
+    }
+    return new DictPattern(keys, values)
+  } else {
+    throw new SyntaxError(`expected a pattern: a literal, a variable, a list or a dict`, expr.location)
+  }
+}
+
+/**
+ * @returns the names of the variables the pattern binds, in order
+ */
+export function patternBinders(pattern: Pattern, binders: string[] = []): string[] {
+  if (pattern instanceof VarPattern) {
+    if (pattern.id !== '_') {
+      binders.push(pattern.id)
+    }
+  } else if (pattern instanceof ListPattern) {
+    pattern.items.forEach(item => patternBinders(item, binders))
+    if (pattern.rest !== undefined) {
+      patternBinders(pattern.rest, binders)
+    }
+  } else if (pattern instanceof DictPattern) {
+    pattern.values.forEach(value => patternBinders(value, binders))
+  }
+  return binders
+}
+
+function showPattern(pattern: Pattern): string {
+  if (pattern instanceof LiteralPattern) {
+    return showExpr(pattern.value)
+  } else if (pattern instanceof VarPattern) {
+    return pattern.id
+  } else if (pattern instanceof ListPattern) {
+    let items = pattern.items.map(showPattern)
+    if (pattern.rest !== undefined) {
+      items.push('&', showPattern(pattern.rest))
+    }
+    return `[${items.join(' ')}]`
+  } else {
+    const values = pattern.values
+    return `{${pattern.keys.map((key, i) => `(${showExpr(key)} ${showPattern(values[i])})`).join(' ')}}`
+  }
+}
+
+/**
+ * `(pattern body)` or `(pattern when guard body)` in a match expression, whose body is evaluated if the value matches
+ * the pattern and the guard is true, with the variables of the pattern bound.
+ */
+export class MatchClause {
+  pattern: Pattern
+  guard?: Expr
+  body: Expr
+  location: Span
+
+  constructor(pattern: Pattern, guard: Expr | undefined, body: Expr, location: Span) {
+    this.pattern = pattern
+    this.guard = guard
+    this.body = body
+    this.location = location
+  }
+}
+
+/**
+ * `(match value clauses...)`: evaluates to the body of the first clause that the value matches, or fails with a
+ * `match-error` if there is none.
+ */
+export class ExprMatch {
+  subject: Expr
+  clauses: MatchClause[]
+  location: Span
+
+  constructor(subject: Expr, clauses: MatchClause[], location: Span) {
+    this.subject = subject
+    this.clauses = clauses
+    this.location = location
+  }
+}
+
+function parseMatch(lexer: Lexer, macros: MacroScope, start: Span): ExprMatch {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let subject = parseExpr(lexer, macros)
+  let clauses: MatchClause[] = []
+
+  let token = lexer.next().check()
+  while (!(token.type === TokenType.symbol && token.literal === ')')) {
+    if (!(token.type === TokenType.symbol && token.literal === '(')) {
+      throw new SyntaxError(`expected '('`, token.span)
+    }
+    let clauseStart = token.span
+
+    let pattern = toPattern(parseExpr(lexer, macros))
+    let guard: Expr | undefined = undefined
+    token = lexer.lookNext().check()
+    if (token.type === TokenType.identifier && token.literal === 'when') {
+      lexer.next()
+      guard = parseExpr(lexer, macros)
+    }
+    let body = parseExpr(lexer, macros)
+
+    token = lexer.next().check()
+    if (!(token.type === TokenType.symbol && token.literal === ')')) {
+      throw new SyntaxError(`expected ')'`, token.span)
+    }
+    clauses.push(new MatchClause(pattern, guard, body, clauseStart.to(token.span)))
+
+    token = lexer.next().check()
+  }
+
+  if (clauses.length === 0) {
+    throw new SyntaxError(`expected a match clause`, token.span)
+  }
+
+  return new ExprMatch(subject, clauses, start.to(token.span))
+}
+
+/**
+ * `(catch name body)`, `(catch kind name body)` or `(catch (kinds...) name body)` in a try expression, which handles
+ * the errors of the kinds, or of any kind if none is given.
+ */
+export class CatchClause {
+  kinds: string[]
+  name: string
+  body: Expr
+  location: Span
+
+  constructor(kinds: string[], name: string, body: Expr, location: Span) {
+    this.kinds = kinds
+    this.name = name
+    this.body = body
+    this.location = location
+  }
+}
+
+/**
+ * `(try body catches... (finally expr)?)`: evaluates to the value of the body, or to that of the first catch clause
+ * handling the error of the body. The finally expression is evaluated last in either case. Errors stopping the
+ * evaluation, as timeouts, are not caught.
+ */
+export class ExprTry {
+  body: Expr
+  catches: CatchClause[]
+  finalizer?: Expr
+  location: Span
+
+  constructor(body: Expr, catches: CatchClause[], finalizer: Expr | undefined, location: Span) {
+    this.body = body
+    this.catches = catches
+    this.finalizer = finalizer
+    this.location = location
+  }
+}
+
+function parseTry(lexer: Lexer, macros: MacroScope, start: Span): ExprTry {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let body = parseExpr(lexer, macros)
+  let catches: CatchClause[] = []
+  let finalizer: Expr | undefined = undefined
+
+  let token = lexer.next().check()
+  while (!(token.type === TokenType.symbol && token.literal === ')')) {
+    if (finalizer !== undefined) {
+      throw new SyntaxError(`expected ')' after the finally clause`, token.span)
+    }
+    if (!(token.type === TokenType.symbol && token.literal === '(')) {
+      throw new SyntaxError(`expected '('`, token.span)
+    }
+    let clauseStart = token.span
+
+    token = lexer.next().check()
+    if (token.type === TokenType.identifier && token.literal === 'catch') {
+      catches.push(parseCatch(lexer, macros, clauseStart))
+    } else if (token.type === TokenType.identifier && token.literal === 'finally') {
+      finalizer = parseExpr(lexer, macros)
+      token = lexer.next().check()
+      if (!(token.type === TokenType.symbol && token.literal === ')')) {
+        throw new SyntaxError(`expected ')'`, token.span)
+      }
+    } else {
+      throw new SyntaxError(`expected 'catch' or 'finally'`, token.span)
+    }
+
+    token = lexer.next().check()
+  }
+
+  if (catches.length === 0 && finalizer === undefined) {
+    throw new SyntaxError(`expected a catch or finally clause`, token.span)
+  }
+
+  return new ExprTry(body, catches, finalizer, start.to(token.span))
+}
+
+function parseCatch(lexer: Lexer, macros: MacroScope, start: Span): CatchClause {
+  let kinds: string[] = []
+  let token = lexer.next().check()
+  if (token.type === TokenType.symbol && token.literal === '(') {
+    // (catch (kinds...) name body)
+    token = lexer.next().check()
+    while (!(token.type === TokenType.symbol && token.literal === ')')) {
+      if (token.type !== TokenType.identifier) {
+        throw new SyntaxError(`expected IDENTIFIER`, token.span)
+      }
+      kinds.push(token.literal)
+      token = lexer.next().check()
+    }
+    token = lexer.next().check()
+  }
+  if (token.type !== TokenType.identifier || KEYWORD[token.literal] !== undefined) {
+    throw new SyntaxError(`expected IDENTIFIER`, token.span)
+  }
+  let name = token.literal
+
+  let body = parseExpr(lexer, macros)
+  token = lexer.lookNext().check()
+  if (!(token.type === TokenType.symbol && token.literal === ')')) {
+    // (catch kind name body): what is parsed as the body is the name
+    if (kinds.length > 0 || !(body instanceof Var) || KEYWORD[body.id] !== undefined) {
+      throw new SyntaxError(`expected ')'`, token.span)
+    }
+    kinds.push(name)
+    name = body.id
+    body = parseExpr(lexer, macros)
+  }
+  token = lexer.next().check()
+  if (!(token.type === TokenType.symbol && token.literal === ')')) {
+    throw new SyntaxError(`expected ')'`, token.span)
+  }
+
+  return new CatchClause(kinds, name, body, start.to(token.span))
+}
+
+export class Macro {
+  name: string
+  args: MacroArg[]
+  pattern: MacroPattern
+  body: MacroExpr
+  location: Span
+  /** the scope the macro is defined in, where the macro calls in its body are resolved */
+  scope: MacroScope
+
+  constructor(name: string, args: MacroArg[], body: MacroExpr, location: Span, scope: MacroScope) {
+    this.name = name
+    this.args = args
+    this.pattern = new MacroPattern(this, args)
+    this.body = body
+    this.location = location
+    this.scope = scope
+  }
+}
+
+function parseMacro(lexer: Lexer, macros: MacroScope, start: Span): Macro {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let token = lexer.next().check()
+  if (!(token.type === TokenType.symbol && token.literal === '(')) {
+    throw new SyntaxError(`expected '('`, token.span)
+  }
+
+  token = lexer.next().check()
+  if (!(token.type === TokenType.identifier)) {
+    throw new SyntaxError(`syntax error: expected IDENTIFIER`, token.span)
+  }
+  let name = token.literal
+
+  let args: MacroArg[] = []
+  token = lexer.lookNext().check()
+  if (token.type === TokenType.symbol && token.literal === ')') {
+    throw new SyntaxError(`expected macro argument list`, token.span)
+  }
+
+  while (!(token.type === TokenType.symbol && token.literal === ')')) {
+    let arg = parseMacroArg(lexer, args)
+    args.push(arg)
+    token = lexer.lookNext().check()
+  }
+
+  // skip ')'
+  lexer.next()
+
+  let expr = parseMacroExpr(lexer)
+
+  // skip ')'
+  lexer.next()
+
+  let location = start.to(lexer.lastSpan)
+  let macro = new Macro(name, args, expr, location, macros)
+  macros.define(macro, location)
+
+  return macro
+}
+
+/**
+ * `(defmacro (name params...) body)`: a macro whose expansion is the code returned by a function, which receives the
+ * argument forms as code. A parameter after `&` receives the rest of the argument forms as a list.
+ * The function can call the top-level functions defined before the macro call in the same source, but no variables,
+ * since only function definitions are evaluated at parse time.
+ */
+export class ProcMacro {
+  name: string
+  params: string[]
+  body: Expr
+  location: Span
+  scope: MacroScope
+
+  constructor(name: string, params: string[], body: Expr, location: Span, scope: MacroScope) {
+    this.name = name
+    this.params = params
+    this.body = body
+    this.location = location
+    this.scope = scope
+  }
+}
+
+function parseProcMacro(lexer: Lexer, macros: MacroScope, start: Span): ProcMacro {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let token = lexer.next().check()
+  if (!(token.type === TokenType.symbol && token.literal === '(')) {
+    throw new SyntaxError(`expected '('`, token.span)
+  }
+
+  // (defmacro (name params...) body) has the same syntax as (let (name params...) body)
+  let func = parseLetFunc(lexer, macros, start)
+  let rest = func.params.indexOf('&')
+  if (rest >= 0 && rest !== func.params.length - 2) {
+    throw new SyntaxError(`expected exactly one parameter after '&' for macro '${func.id}'`, func.location)
+  }
+
+  let macro = new ProcMacro(func.id, func.params, func.body, func.location, macros)
+  macros.define(macro, func.location)
+  return macro
+}
+
+export class MacroExport {
+  names: string[]
+  location: Span
+
+  constructor(names: string[], location: Span) {
+    this.names = names
+    this.location = location
+  }
+}
+
+function parseMacroExport(lexer: Lexer, macros: MacroScope, start: Span): MacroExport {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let names: string[] = []
+  let token = lexer.next().check()
+  while (!(token.type === TokenType.symbol && token.literal === ')')) {
+    if (token.type !== TokenType.identifier) {
+      throw new SyntaxError(`expected IDENTIFIER`, token.span)
+    }
+    if (!macros.macros.has(token.literal)) {
+      throw new SyntaxError(`exporting macro '${token.literal}' not defined in this file`, token.span)
+    }
+    macros.exports.add(token.literal)
+    names.push(token.literal)
+
+    token = lexer.next().check()
+  }
+
+  return new MacroExport(names, start.to(token.span))
+}
+
+/**
+ * `` `template ``: builds the template as code, with the `,expr` and `,@expr` parts in it replaced by their values.
+ */
+export class Quasiquote {
+  template: QuasiExpr
+  /** the macros visible where the code is quoted, for the macro calls in the code built */
+  macros: MacroScope
+  location: Span
+
+  constructor(template: QuasiExpr, macros: MacroScope, location: Span) {
+    this.template = template
+    this.macros = macros
+    this.location = location
+  }
+}
+
+/** The template of a quasiquote is kept as plain syntax, recognized as expressions only when the code is built. */
+export type QuasiExpr = Literal | Var | QuasiParen | Unquote
+
+export class QuasiParen {
+  type: '(' | '[' | '{'
+  items: QuasiExpr[]
+  location: Span
+
+  constructor(type: '(' | '[' | '{', items: QuasiExpr[], location: Span) {
+    this.type = type
+    this.items = items
+    this.location = location
+  }
+}
+
+/** `,expr`, or `,@expr` which splices the items of a list value into the enclosing template */
+export class Unquote {
+  expr: Expr
+  splicing: boolean
+  location: Span
+
+  constructor(expr: Expr, splicing: boolean, location: Span) {
+    this.expr = expr
+    this.splicing = splicing
+    this.location = location
+  }
+}
+
+function parseQuasiquote(lexer: Lexer, macros: MacroScope, start: Span): Quasiquote {
+  let template = parseQuasiExpr(lexer, macros)
+  if (template instanceof Unquote && template.splicing) {
+    throw new SyntaxError(`',@' not in a list of quasiquote`, start)
+  }
+  return new Quasiquote(template, macros, start.to(lexer.lastSpan))
+}
+
+function parseQuasiExpr(lexer: Lexer, macros: MacroScope): QuasiExpr {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let token = lexer.next().check()
+  if (token.type === TokenType.number || token.type === TokenType.string) {
+    return literalOf(token)
+  } else if (token.type === TokenType.identifier) {
+    return new Var(token.literal, token.span)
+  } else if (token.type === TokenType.symbol) {
+    const start = token.span
+    if (token.literal === ',' || token.literal === ',@') {
+      let expr = parseExpr(lexer, macros)
+      return new Unquote(expr, token.literal === ',@', start.to(lexer.lastSpan))
+    } else if (token.literal === '(' || token.literal === '[' || token.literal === '{') {
+      const parenType = token.literal
+      const endpr = closedParen(parenType)
+
+      let items: QuasiExpr[] = []
+      token = lexer.lookNext().check()
+      while (!(token.type === TokenType.symbol && token.literal === endpr)) {
+        items.push(parseQuasiExpr(lexer, macros))
+
+        token = lexer.lookNext().check()
+      }
+
+      lexer.next() // skip endpr
+
+      return new QuasiParen(parenType, items, start.to(lexer.lastSpan))
+    } else if (token.literal === '`') {
+      throw new SyntaxError(`nested quasiquote is not supported`, token.span)
+    } else {
+      throw new SyntaxError(`unexpected '${token.literal}'`, token.span)
+    }
+  } else {
+    throw new Error('not possible')
+  }
+}
+
+/**
+ * A macro call not expanded yet.
+ */
+export class MacroCall {
+  macro: MacroDefinition
+  /** the items of the call, the first of which is the macro name */
+  items: Expr[]
+  location: Span
+  /** the scope at the call site, where the macro calls in the arguments are resolved */
+  scope: MacroScope
+
+  constructor(macro: MacroDefinition, items: Expr[], location: Span, scope: MacroScope) {
+    this.macro = macro
+    this.items = items
+    this.location = location
+    this.scope = scope
+  }
+}
+
+type MacroArg = Literal | Var | MacroArgStruct | MacroArgSection | MacroArgSelector | MacroArgParen |  MacroArgRepeat
+
+type MacroStruct = 'expr' | 'token' | 'number' | 'string' | 'ident'
+
+class MacroArgStruct {
+  name: string | undefined
+  struct: MacroStruct
+
+  constructor(name: string | undefined, struct: MacroStruct) {
+    this.name = name
+    this.struct = struct
+  }
+}
+
+class MacroArgSection {
+  name: string | undefined
+  subs: MacroArg[] // >= 1
+
+  constructor(name: string | undefined, subs: MacroArg[]) {
+    this.name = name
+    this.subs = subs
+  }
+}
+
+class MacroArgSelector {
+  name: string | undefined
+  subs: MacroArg[] // >= 2
+
+  constructor(name: string | undefined, subs: MacroArg[]) {
+    this.name = name
+    this.subs = subs
+  }
+}
+
+class MacroArgParen {
+  type: '(' | '[' | '{'
+  subs: MacroArg[]
+
+  constructor(type: '(' | '[' | '{', subs: MacroArg[]) {
+    this.type = type
+    this.subs = subs
+  }
+}
+
+class MacroArgRepeat {
+  name: string | undefined
+  selector: '?' | '*' | '+'
+  arg: MacroArg
+
+  constructor(selector: '?' | '*' | '+', arg: MacroArg) {
+    this.selector = selector
+    this.arg = arg
+  }
+}
+
+/**
+ * @param args for repeaters to retrieve (and take the place of) the last parsed macro argument
+ */
+function parseMacroArg(lexer: Lexer, args: MacroArg[]): MacroArg {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let token = lexer.next().check()
+  if (token.type === TokenType.number || token.type === TokenType.string) {
+    return literalOf(token)
+  } else if (token.type === TokenType.identifier) {
+    return new Var(token.literal, token.span)
+  } else if (token.type === TokenType.symbol) {
     if (token.literal === '%') {
-      let name = ''
+      let name: string | undefined = undefined
 
       token = lexer.next().check()
       if (token.type === TokenType.identifier) {
         if (token.literal === '?'|| token.literal === '*' || token.literal === '+') {
           // ...%? ...%* ...%+
-          let lastArg = args[args.length - 1]
+          let lastArg = args.pop()
           if (lastArg === undefined) {
-            throw new SyntaxError(`expected a macro argument before this selector${token.locate()}`)
+            throw new SyntaxError(`expected a macro argument before this selector`, token.span)
           }
 
           let mar = new MacroArgRepeat(token.literal, lastArg)
@@ -629,7 +1596,7 @@ function parseMacroArg(lexer: Lexer, args: MacroArg[]): MacroArg {
               lastArg.name = undefined
             }
           } else if (lastArg instanceof MacroArgRepeat) {
-            throw new SyntaxError(`cannot repeat a macro segment repeater${token.locate()}`)
+            throw new SyntaxError(`cannot repeat a macro segment repeater`, token.span)
           }
 
           return mar
@@ -671,7 +1638,7 @@ function parseMacroArg(lexer: Lexer, args: MacroArg[]): MacroArg {
 
           token = lexer.lookNext().check()
           while (!(token.type === TokenType.symbol && token.literal === ']')) {
-            let arg = parseMacroArg(lexer, args)
+            let arg = parseMacroArg(lexer, choices)
             choices.push(arg)
 
             token = lexer.lookNext().check()
@@ -696,252 +1663,1179 @@ function parseMacroArg(lexer: Lexer, args: MacroArg[]): MacroArg {
 
               token = lexer.next().check()
               if (!(token.type === TokenType.symbol && token.literal === '}')) {
-                throw new SyntaxError(`expected '}'${token.locate()}`)
+                throw new SyntaxError(`expected '}'`, token.span)
               }
 
               return new MacroArgStruct(name, struct)
             } else {
-              throw new SyntaxError(`expected "expr" "token" "number" "string" or "ident"${token.locate()}`)
+              throw new SyntaxError(`expected "expr" "token" "number" "string" or "ident"`, token.span)
             }
           } else {
-            throw new SyntaxError(`expected "expr" "token" "number" "string" or "ident"${token.locate()}`)
+            throw new SyntaxError(`expected "expr" "token" "number" "string" or "ident"`, token.span)
           }
         } else {
-          throw new SyntaxError(`expected '(' '[' or '{'${token.locate()}`)
+          throw new SyntaxError(`expected '(' '[' or '{'`, token.span)
+        }
+      } else {
+        throw new SyntaxError(`expected '(' '[' or '{'`, token.span)
+      }
+    } else if (token.literal === '(' || token.literal === '[' || token.literal === '{') {
+      const parenType = token.literal
+      const endpr = closedParen(parenType)
+
+      let args: MacroArg[] = []
+      token = lexer.lookNext().check()
+      while (!(token.type === TokenType.symbol && token.literal === endpr)) {
+        let arg = parseMacroArg(lexer, args)
+        args.push(arg)
+
+        token = lexer.lookNext().check()
+      }
+
+      lexer.next() // skip endpr
+
+      return new MacroArgParen(parenType, args)
+    } else {
+      throw new SyntaxError(`unexpected '${token.literal}'`, token.span)
+    }
+  } else {
+    throw new Error('not possible')
+  }
+}
+
+function closedParen(opPr: '(' | '[' | '{'): ')' | ']' | '}' {
+  return opPr === '(' ? ')' : opPr === '[' ? ']' : '}'
+}
+
+type MacroExpr = Literal | Var | MacroVar | MacroParenExpr
+
+class MacroVar {
+  name: string
+  intoList: boolean
+
+  constructor(name: string, intoList: boolean = false) {
+    this.name = name
+    this.intoList = intoList
+  }
+}
+
+class MacroParenExpr {
+  type: '(' | '[' | '{'
+  exprs: MacroExpr[]
+
+  constructor(type: '(' | '[' | '{', exprs: MacroExpr[]) {
+    this.type = type
+    this.exprs = exprs
+  }
+}
+
+function parseMacroExpr(lexer: Lexer): MacroExpr {
+  if (lexer.eof) {
+    throw new SyntaxError(UNEXP_EOF, lexer.here)
+  }
+
+  let token = lexer.next().check()
+  if (token.type === TokenType.number || token.type === TokenType.string) {
+    return literalOf(token)
+  } else if (token.type === TokenType.identifier) {
+    return new Var(token.literal, token.span)
+  } else if (token.type === TokenType.symbol) {
+    if (token.literal === '%') {
+      token = lexer.next().check()
+      if (token.type === TokenType.identifier) {
+        // %name
+        return new MacroVar(token.literal)
+      } else if (token.type === TokenType.symbol && token.literal === '%') {
+        // %%...
+        //  ^
+        token = lexer.next().check()
+        if (token.type !== TokenType.identifier) {
+          throw new SyntaxError(`syntax error: expected IDENTIFIER`, token.span)
+        }
+
+        // %%name
+        return new MacroVar(token.literal, true)
+      } else {
+        throw new SyntaxError(`expected '%' or IDENTIFIER`, token.span)
+      }
+    } else if (token.literal === '(' || token.literal === '[' || token.literal === '{') {
+      const parenType = token.literal
+      const endpr = closedParen(parenType)
+
+      let exprs: MacroExpr[] = []
+      token = lexer.lookNext().check()
+      while (!(token.type === TokenType.symbol && token.literal === endpr)) {
+        let expr = parseMacroExpr(lexer)
+        exprs.push(expr)
+
+        token = lexer.lookNext().check()
+      }
+
+      lexer.next() // skip endpr
+
+      return new MacroParenExpr(parenType, exprs)
+    } else {
+      throw new SyntaxError(`unexpected '${token.literal}'`, token.span)
+    }
+  } else {
+    throw new Error('not possible')
+  }
+}
+
+
+/** Values captured by a macro pattern variable. */
+class MacroBinding {
+  items: Expr[]
+  /** whether the variable captures a sequence (a section, a selector, a repeater, or anything inside `%*` or `%+`) */
+  seq: boolean
+
+  constructor(items: Expr[], seq: boolean) {
+    this.items = items
+    this.seq = seq
+  }
+
+  clone(): MacroBinding {
+    return new MacroBinding(this.items.slice(), this.seq)
+  }
+}
+
+type StructMap = Map<string, MacroBinding>
+/** Returns whether the path is accepted by current state. */
+type StateChangeGuard = (path: Expr) => boolean
+
+/** A pattern variable that records the paths accepted by an edge. */
+class StateBound {
+  name: string
+  seq: boolean
+
+  constructor(name: string, seq: boolean) {
+    this.name = name
+    this.seq = seq
+  }
+}
+
+class StateEdge {
+  from: StateVertex
+  to: StateVertex
+  bounds: StateBound[]
+  /** an edge without a guard is passed without consuming a path */
+  guard?: StateChangeGuard
+  /** for parenthesized patterns, the pattern the inner items of the path must match */
+  sub?: MacroPattern
+  /** the pattern element consumed by the edge, shown when the arguments do not match */
+  expect: string
+
+  constructor(from: StateVertex, to: StateVertex, bounds: StateBound[], guard?: StateChangeGuard, sub?: MacroPattern,
+              expect: string = '') {
+    this.from = from
+    this.to = to
+    this.bounds = bounds
+    this.guard = guard
+    this.sub = sub
+    this.expect = expect
+  }
+}
+
+class StateVertex {
+  tag: string
+  outs: StateEdge[] = []
+
+  constructor(tag: string) {
+    this.tag = tag
+  }
+
+  addArrowTo(vertex: StateVertex, bounds: StateBound[] = [], guard?: StateChangeGuard, sub?: MacroPattern,
+             expect?: string): this {
+    this.outs.push(new StateEdge(this, vertex, bounds, guard, sub, expect))
+    return this
+  }
+}
+
+/** macro parser kernel */
+class StatePointer {
+  to: StateVertex
+  structMap: StructMap
+
+  constructor(to: StateVertex, structMap: StructMap) {
+    this.to = to
+    this.structMap = structMap
+  }
+
+  clone(to: StateVertex): StatePointer {
+    let structMap: StructMap = new Map()
+    this.structMap.forEach((binding, name) => structMap.set(name, binding.clone()))
+    return new StatePointer(to, structMap)
+  }
+
+  /**
+   * Follows every unguarded edge from the current state.
+   * @returns the pointers to all the states reachable without consuming a path, in the order of preference
+   */
+  closure(visited: Set<StateVertex>): StatePointer[] {
+    if (visited.has(this.to)) {
+      return []
+    }
+    visited.add(this.to)
+
+    let result: StatePointer[] = [this]
+    let outs = this.to.outs
+    for (let i = 0; i < outs.length; i++) {
+      let out = outs[i]
+      if (out.guard === undefined && out.sub === undefined) {
+        let p = new StatePointer(out.to, this.structMap)
+        result = result.concat(p.closure(visited))
+      }
+    }
+    return result
+  }
+
+  /**
+   * Consumes the path through every edge that accepts it.
+   * @returns the pointers to the states after the path, in the order of preference
+   */
+  step(item: Expr): StatePointer[] {
+    let result: StatePointer[] = []
+    let outs = this.to.outs
+    for (let i = 0; i < outs.length; i++) {
+      let out = outs[i]
+      if (out.sub !== undefined) {
+        let innerItems = out.sub.innerItems(item)
+        let inner = innerItems === undefined ? undefined : out.sub.run(innerItems)
+        if (inner === undefined || inner instanceof MatchFailure) {
+          continue
+        }
+        let p = this.clone(out.to)
+        inner.forEach((binding, name) => p.record(new StateBound(name, binding.seq), binding.items))
+        p.recordBounds(out.bounds, item)
+        result.push(p)
+      } else if (out.guard !== undefined && out.guard(item)) {
+        let p = this.clone(out.to)
+        p.recordBounds(out.bounds, item)
+        result.push(p)
+      }
+    }
+    return result
+  }
+
+  private recordBounds(bounds: StateBound[], item: Expr) {
+    for (let i = 0; i < bounds.length; i++) {
+      this.record(bounds[i], [item])
+    }
+  }
+
+  private record(bound: StateBound, items: Expr[]) {
+    let binding = this.structMap.get(bound.name)
+    if (binding !== undefined && bound.seq) {
+      binding.items = binding.items.concat(items)
+    } else {
+      // if two arg have the same bound name, the former will be shadowed by the latter
+      this.structMap.set(bound.name, new MacroBinding(items, bound.seq))
+    }
+  }
+}
+
+function structGuard(struct: MacroStruct): StateChangeGuard {
+  switch (struct) {
+    case 'expr':
+      return _ => true
+    case 'token':
+      return path => path instanceof Literal || path instanceof Var
+    case 'number':
+      return path => path instanceof Literal && typeof path.value !== 'string'
+    case 'string':
+      return path => path instanceof Literal && typeof path.value === 'string'
+    case 'ident':
+      return path => path instanceof Var
+  }
+}
+
+// Macro expansion automata
+class MacroPattern {
+  macro: Macro
+  /** a state is a unique string; the first state is the initial one and the last state is the accepting one */
+  graph: StateVertex[] = []
+  /** for patterns of a parenthesized macro argument, the type of the parentheses */
+  paren?: '(' | '[' | '{'
+  /** names of the sequence variables, bound to empty sequences before matching */
+  seqNames: string[] = []
+
+  /**
+   * @param seq whether the pattern is nested in a `%*` or `%+` repeater
+   */
+  constructor(macro: Macro, args: MacroArg[], paren?: '(' | '[' | '{', seq: boolean = false) {
+    this.macro = macro
+    this.paren = paren
+
+    // init graph
+    let start = this.newVertex()
+    let end = this.buildSeq(start, args, [], seq)
+    let accept = this.newVertex()
+    end.addArrowTo(accept)
+  }
+
+  private newVertex(): StateVertex {
+    let v = new StateVertex(`${this.macro.name}#${this.graph.length}`)
+    this.graph.push(v)
+    return v
+  }
+
+  private bind(bounds: StateBound[], name: string | undefined, seq: boolean): StateBound[] {
+    if (name === undefined) {
+      return bounds
+    }
+    if (seq && this.seqNames.indexOf(name) < 0) {
+      this.seqNames.push(name)
+    }
+    return bounds.concat([new StateBound(name, seq)])
+  }
+
+  /**
+   * @returns the state after the arguments
+   */
+  private buildSeq(from: StateVertex, args: MacroArg[], bounds: StateBound[], seq: boolean): StateVertex {
+    for (let i = 0; i < args.length; i++) {
+      from = this.build(from, args[i], bounds, seq)
+    }
+    return from
+  }
+
+  /**
+   * @param label the name shown for an unnamed struct, which is the name of the repeater around it
+   * @returns the state after the argument
+   */
+  private build(from: StateVertex, arg: MacroArg, bounds: StateBound[], seq: boolean, label?: string): StateVertex {
+    let to: StateVertex
+    if (arg instanceof Literal) {
+      to = this.newVertex()
+      from.addArrowTo(to, bounds, path => path instanceof Literal && path.value === arg.value, undefined, showMacroArg(arg))
+    } else if (arg instanceof Var) {
+      to = this.newVertex()
+      from.addArrowTo(to, bounds, path => path instanceof Var && path.id === arg.id, undefined, showMacroArg(arg))
+    } else if (arg instanceof MacroArgStruct) {
+      let name = arg.name === undefined ? label : arg.name
+      to = this.newVertex()
+      from.addArrowTo(to, this.bind(bounds, arg.name, seq), structGuard(arg.struct), undefined,
+        `%${name === undefined ? '' : name}{${arg.struct}}`)
+    } else if (arg instanceof MacroArgSection) {
+      to = this.buildSeq(from, arg.subs, this.bind(bounds, arg.name, true), seq)
+    } else if (arg instanceof MacroArgSelector) {
+      let choiceBounds = this.bind(bounds, arg.name, true)
+      to = this.newVertex()
+      for (let i = 0; i < arg.subs.length; i++) {
+        let choice = this.newVertex()
+        from.addArrowTo(choice)
+        this.build(choice, arg.subs[i], choiceBounds, seq).addArrowTo(to)
+      }
+    } else if (arg instanceof MacroArgParen) {
+      let sub = new MacroPattern(this.macro, arg.subs, arg.type, seq)
+      for (let i = 0; i < sub.seqNames.length; i++) {
+        this.bind([], sub.seqNames[i], true)
+      }
+      to = this.newVertex()
+      from.addArrowTo(to, bounds, undefined, sub, showMacroArg(arg))
+    } else if (arg instanceof MacroArgRepeat) {
+      let repeatSeq = seq || arg.selector !== '?'
+      let repeatBounds = this.bind(bounds, arg.name, repeatSeq)
+      to = this.newVertex()
+      if (arg.selector === '?') {
+        // greedy: try the argument first
+        let body = this.newVertex()
+        from.addArrowTo(body)
+        this.build(body, arg.arg, repeatBounds, repeatSeq, arg.name).addArrowTo(to)
+        from.addArrowTo(to)
+      } else {
+        let loop = this.newVertex()
+        if (arg.selector === '+') {
+          this.build(from, arg.arg, repeatBounds, repeatSeq, arg.name).addArrowTo(loop)
+        } else {
+          from.addArrowTo(loop)
         }
-      } else {
-        throw new SyntaxError(`expected '(' '[' or '{'${token.locate()}`)
+        let body = this.newVertex()
+        loop.addArrowTo(body)
+        this.build(body, arg.arg, repeatBounds, repeatSeq, arg.name).addArrowTo(loop)
+        loop.addArrowTo(to)
       }
-    } else if (token.literal === '(' || token.literal === '[' || token.literal === '{') {
-      const parenType = token.literal
-      const endpr = closedParen(parenType)
-
-      let args: MacroArg[] = []
-      token = lexer.lookNext().check()
-      while (!(token.type === TokenType.symbol && token.literal === endpr)) {
-        let arg = parseMacroArg(lexer, args)
-        args.push(arg)
+    } else {
+      throw new Error('not possible')
+    }
+    return to
+  }
 
-        token = lexer.lookNext().check()
+  /**
+   * Gets the items inside a path that a parenthesized pattern should match, or `undefined` if the path is not
+   * parenthesized in the same way.
+   */
+  innerItems(path: Expr): Expr[] | undefined {
+    if (this.paren === '(' && path instanceof SExpr) {
+      return path.caller === undefined ? [] : [path.caller].concat(path.args)
+    } else if (this.paren === '(' && path instanceof MacroCall) {
+      return path.items
+    } else if (this.paren === '[' && path instanceof ListExpr) {
+      return path.items
+    } else if (this.paren === '{' && path instanceof DictExpr) {
+      let items: Expr[] = []
+      for (let i = 0; i < path.entries.length; i++) {
+        items.push(path.entries[i].key, path.entries[i].value)
       }
+      return items
+    }
+    return undefined
+  }
 
-      lexer.next() // skip endpr
+  /**
+   * Runs the automaton on the items.
+   * @returns the bound pattern variables if the items are accepted, or where and why the matching stopped otherwise
+   */
+  run(items: Expr[]): StructMap | MatchFailure {
+    let initMap: StructMap = new Map()
+    for (let i = 0; i < this.seqNames.length; i++) {
+      initMap.set(this.seqNames[i], new MacroBinding([], true))
+    }
 
-      return new MacroArgParen(parenType, args)
-    } else {
-      throw new SyntaxError(`unexpected '${token.literal}'${token.locate()}`)
+    let accept = this.graph[this.graph.length - 1]
+    let spPointers = closure([new StatePointer(this.graph[0], initMap)])
+    for (let i = 0; i < items.length; i++) {
+      let next: StatePointer[] = []
+      for (let j = 0; j < spPointers.length; j++) {
+        next = next.concat(spPointers[j].step(items[i]))
+      }
+      if (next.length === 0) {
+        return new MatchFailure(i, expectations(spPointers, accept))
+      }
+      spPointers = closure(next)
     }
-  } else {
-    throw new Error('not possible')
+
+    for (let i = 0; i < spPointers.length; i++) {
+      if (spPointers[i].to === accept) {
+        return spPointers[i].structMap
+      }
+    }
+    return new MatchFailure(items.length, expectations(spPointers, accept))
   }
 }
 
-function closedParen(opPr: '(' | '[' | '{'): ')' | ']' | '}' {
-  return opPr === '(' ? ')' : opPr === '[' ? ']' : '}'
+/** The position in the arguments where a macro pattern stopped matching. */
+class MatchFailure {
+  /** the index of the argument that could not be consumed, or the number of arguments if more were expected */
+  index: number
+  /** the pattern elements that could have been matched at the position */
+  expected: string[]
+
+  constructor(index: number, expected: string[]) {
+    this.index = index
+    this.expected = expected
+  }
 }
 
-type MacroExpr = number | string | Var | MacroVar | MacroParenExpr
+/**
+ * Collects the pattern elements that the pointers can consume next, in the order of preference.
+ */
+function expectations(pointers: StatePointer[], accept: StateVertex): string[] {
+  let result: string[] = []
+  const add = (expect: string) => {
+    if (result.indexOf(expect) === -1) {
+      result.push(expect)
+    }
+  }
+  for (let i = 0; i < pointers.length; i++) {
+    let to = pointers[i].to
+    if (to === accept) {
+      add('end of arguments')
+    }
+    for (let j = 0; j < to.outs.length; j++) {
+      let out = to.outs[j]
+      if (out.guard !== undefined || out.sub !== undefined) {
+        add(out.expect)
+      }
+    }
+  }
+  return result
+}
 
-class MacroVar {
-  name: string
-  intoList: boolean
+/**
+ * Follows the unguarded edges from every pointer. Pointers arriving at a state that has already been reached are
+ * dropped, so that the preferred one wins.
+ */
+function closure(pointers: StatePointer[]): StatePointer[] {
+  let visited: Set<StateVertex> = new Set()
+  let result: StatePointer[] = []
+  for (let i = 0; i < pointers.length; i++) {
+    result = result.concat(pointers[i].closure(visited))
+  }
+  return result
+}
 
-  constructor(name: string, intoList: boolean = false) {
-    this.name = name
-    this.intoList = intoList
+/** State of a single macro expansion. */
+class MacroExpansion {
+  macro: Macro
+  structMap: StructMap
+  /** fresh names of the identifiers bound by `let` or `\` in the macro body */
+  renames: Map<string, string>
+  location: Span
+  /** the scope at the call site */
+  scope: MacroScope
+
+  constructor(macro: Macro, call: MacroCall, structMap: StructMap) {
+    this.macro = macro
+    this.structMap = structMap
+    this.renames = new Map()
+    this.location = call.location
+    this.scope = call.scope
+
+    let binders = templateBinders(macro.body, [])
+    for (let i = 0; i < binders.length; i++) {
+      this.renames.set(binders[i], gensym(binders[i]))
+    }
   }
 }
 
-class MacroParenExpr {
-  type: '(' | '[' | '{'
-  exprs: MacroExpr[]
+let gensymCounter = 0
 
-  constructor(type: '(' | '[' | '{', exprs: MacroExpr[]) {
-    this.type = type
-    this.exprs = exprs
-  }
+/**
+ * Makes an identifier that cannot be written in source code, since '%' always stands as a single token.
+ */
+export function gensym(id: string): string {
+  return `${id}%${++gensymCounter}`
 }
 
-function parseMacroExpr(lexer: Lexer): MacroExpr {
-  if (lexer.eof) {
-    throw new SyntaxError(UNEXP_EOF)
+/**
+ * Collects the identifiers the macro body binds itself, as the name or parameters of a `let` or the parameters of a
+ * `\`. Identifiers substituted from the macro call are not included.
+ */
+function templateBinders(expr: MacroExpr, binders: string[]): string[] {
+  if (!(expr instanceof MacroParenExpr)) {
+    return binders
+  }
+
+  let [head, target] = expr.exprs
+  if (expr.type === '(' && head instanceof Var && (head.id === 'let' || head.id === '\\')) {
+    let targets = target instanceof MacroParenExpr ? target.exprs : head.id === 'let' ? [target] : []
+    for (let i = 0; i < targets.length; i++) {
+      let t = targets[i]
+      if (t instanceof Var && binders.indexOf(t.id) < 0) {
+        binders.push(t.id)
+      }
+    }
+  } else if (expr.type === '(' && head instanceof Var && head.id === 'match') {
+    // (match value (pattern body)...): the variables in the patterns
+    for (let i = 2; i < expr.exprs.length; i++) {
+      let clause = expr.exprs[i]
+      if (clause instanceof MacroParenExpr && clause.type === '(' && clause.exprs.length > 0) {
+        patternVars(clause.exprs[0], binders)
+      }
+    }
+  } else if (expr.type === '(' && head instanceof Var && head.id === 'catch') {
+    // (catch name body) or (catch kinds name body)
+    let name = expr.exprs[expr.exprs.length - 2]
+    if (expr.exprs.length >= 3 && name instanceof Var && binders.indexOf(name.id) < 0) {
+      binders.push(name.id)
+    }
   }
 
-  let token = lexer.next().check()
-  if (token.type === TokenType.number) {
-    return parseFloat(token.literal)
-  } else if (token.type === TokenType.string) {
-    return token.literal.slice(1, -1)
-  } else if (token.type === TokenType.identifier) {
-    return new Var(token.literal, token.locate())
-  } else if (token.type === TokenType.symbol) {
-    if (token.literal === '%') {
-      token = lexer.next().check()
-      if (token.type === TokenType.identifier) {
-        // %name
-        return new MacroVar(token.literal)
-      } else if (token.type === TokenType.symbol && token.literal === '%') {
-        // %%...
-        //  ^
-        token = lexer.next().check()
-        if (token.type !== TokenType.identifier) {
-          throw new SyntaxError(`syntax error: expected IDENTIFIER${token.locate()}`)
-        }
+  for (let i = 0; i < expr.exprs.length; i++) {
+    templateBinders(expr.exprs[i], binders)
+  }
+  return binders
+}
 
-        // %%name
-        return new MacroVar(token.literal)
-      } else {
-        throw new SyntaxError(`expected '%' or IDENTIFIER${token.locate()}`)
-      }
-    } else if (token.literal === '(' || token.literal === '[' || token.literal === '{') {
-      const parenType = token.literal
-      const endpr = closedParen(parenType)
+/**
+ * Collects the variables of a pattern in a macro body.
+ */
+function patternVars(expr: MacroExpr, binders: string[]) {
+  if (expr instanceof Var) {
+    if (expr.id !== '_' && expr.id !== '&' && expr.id !== '#t' && expr.id !== '#f' && binders.indexOf(expr.id) < 0) {
+      binders.push(expr.id)
+    }
+  } else if (expr instanceof MacroParenExpr) {
+    // the keys of dict patterns are literals, so every variable is bound
+    expr.exprs.forEach(e => patternVars(e, binders))
+  }
+}
 
-      let exprs: MacroExpr[] = []
-      token = lexer.lookNext().check()
-      while (!(token.type === TokenType.symbol && token.literal === endpr)) {
-        let expr = parseMacroExpr(lexer)
-        exprs.push(expr)
+type MacroIntrinsic = (args: MacroExpr[], expansion: MacroExpansion) => Expr
 
-        token = lexer.lookNext().check()
+/** built-in functions usable in macro bodies as `(%name ...)` */
+const MACRO_INTRINSICS: {[keys: string]: MacroIntrinsic | undefined} = {
+  // (%exists %var) => #t if the optional pattern variable has captured anything, #f otherwise
+  'exists': (args, expansion) => {
+    let [v] = args
+    if (args.length !== 1 || !(v instanceof MacroVar)) {
+      throw new SyntaxError(`expected a single macro variable for '%exists'`, expansion.location)
+    }
+    let binding = expansion.structMap.get(v.name)
+    return new Var(binding !== undefined && binding.items.length > 0 ? '#t' : '#f', expansion.location)
+  },
+}
+
+/**
+ * Substitutes the pattern variables in the macro body. Identifiers bound by the macro body are renamed to fresh ones,
+ * and the free ones are marked to be resolved where the macro is defined, so that they never capture or get captured
+ * by the identifiers at the call site.
+ * @returns the expressions the macro expression expands to; sequence variables are spliced into the enclosing
+ * expression
+ */
+function replaceMacroExpr(expr: MacroExpr, expansion: MacroExpansion): Expr[] {
+  const { structMap, location } = expansion
+  if (expr instanceof Literal) {
+    return [expr]
+  } else if (expr instanceof Var) {
+    let renamed = expansion.renames.get(expr.id)
+    if (renamed !== undefined) {
+      return [new Var(renamed, expr.location)]
+    } else {
+      return [new Var(expr.id, expr.location, expansion.macro)]
+    }
+  } else if (expr instanceof MacroVar) {
+    let binding = structMap.get(expr.name)
+    if (expr.intoList) {
+      // %%name => [...]
+      return [new ListExpr(binding === undefined ? [] : binding.items, location)]
+    } else if (binding === undefined) {
+      // an optional argument not given
+      return [new SExpr([], location)]
+    } else {
+      return binding.items
+    }
+  } else if (expr instanceof MacroParenExpr) {
+    let head = expr.exprs[0]
+    if (expr.type === '(' && head instanceof MacroVar && !structMap.has(head.name)) {
+      let intrinsic = MACRO_INTRINSICS[head.name]
+      if (intrinsic !== undefined) {
+        return [intrinsic(expr.exprs.slice(1), expansion)]
       }
+    }
 
-      lexer.next() // skip endpr
+    let items: Expr[] = []
+    for (let i = 0; i < expr.exprs.length; i++) {
+      items = items.concat(replaceMacroExpr(expr.exprs[i], expansion))
+    }
 
-      return new MacroParenExpr(parenType, exprs)
+    if (expr.type === '(') {
+      return [buildForm(items, location, expansion.scope)]
+    } else if (expr.type === '[') {
+      return [new ListExpr(items, location)]
     } else {
-      throw new SyntaxError(`unexpected '${token.literal}'${token.locate()}`)
+      if (items.length % 2 !== 0) {
+        throw new SyntaxError(`odd number of items for a dict in macro expansion`, location)
+      }
+      let entries: DictEntry[] = []
+      for (let i = 0; i < items.length; i += 2) {
+        entries.push(new DictEntry(items[i], items[i + 1]))
+      }
+      return [new DictExpr(entries, location)]
     }
   } else {
     throw new Error('not possible')
   }
 }
 
-type StructMap = Map<string, Expr>
-/** Returns whether the path is accepted by current state. */
-type StateChangeGuard = (path: Expr) => boolean
-
-let spStates: {[keys: string]: any} = {}
+/**
+ * Gets the identifiers of a parameter list built by a macro expansion, or `undefined` if it is not one.
+ */
+function paramsOf(expr: Expr): string[] | undefined {
+  if (!(expr instanceof SExpr)) {
+    return undefined
+  }
+  let items = expr.caller === undefined ? [] : [expr.caller].concat(expr.args)
+  let params: string[] = []
+  for (let i = 0; i < items.length; i++) {
+    let item = items[i]
+    if (!(item instanceof Var) || KEYWORD[item.id] !== undefined) {
+      return undefined
+    }
+    params.push(item.id)
+  }
+  return params
+}
 
-class StateEdge {
-  from: StateVertex
-  to: StateVertex
-  bound: string
-  guard?: StateChangeGuard
+/**
+ * Builds an if expression from the items of `(if cond then else?)` or `(if cond then a (else b)?)` generated by a
+ * macro expansion.
+ */
+function buildIf(items: Expr[], location: Span): ExprIf | undefined {
+  let [_, cond, mark, consequent, elseMark, alternative] = items
+  if (mark instanceof Var && mark.id === 'then') {
+    if (items.length === 4) {
+      return new ExprIf(cond, consequent, undefined, location)
+    } else if (items.length === 6 && elseMark instanceof Var && elseMark.id === 'else') {
+      return new ExprIf(cond, consequent, alternative, location)
+    }
+    return undefined
+  }
+  if (items.length === 3 || items.length === 4) {
+    return new ExprIf(cond, items[2], items[3], location)
+  }
+  return undefined
+}
 
-  constructor(from: StateVertex, to: StateVertex, bound: string, guard?: StateChangeGuard) {
-    this.from = from
-    this.to = to
-    this.bound = bound
-    this.guard = guard
+/**
+ * Builds the clauses of a cond or case expression generated by a macro expansion, each with the builder given and the
+ * last one possibly `(else body)`.
+ * @returns the else body, or `undefined` if there is none; `false` if a clause is malformed
+ */
+function buildClauses(clauses: Expr[], buildClause: (items: Expr[], location: Span) => boolean): Expr | undefined | false {
+  let otherwise: Expr | undefined = undefined
+  for (let i = 0; i < clauses.length; i++) {
+    let clause = clauses[i]
+    if (!(clause instanceof SExpr) || clause.caller === undefined || otherwise !== undefined) {
+      return false
+    }
+    let items = [clause.caller].concat(clause.args)
+    let head = items[0]
+    if (head instanceof Var && head.id === 'else') {
+      if (items.length !== 2) {
+        return false
+      }
+      otherwise = items[1]
+    } else if (!buildClause(items, clause.location)) {
+      return false
+    }
   }
+  return otherwise
 }
 
-class StateVertex {
-  tag: string
-  outs: StateEdge[] = []
+function buildCond(items: Expr[], location: Span): ExprCond | undefined {
+  let clauses: CondClause[] = []
+  let otherwise = buildClauses(items.slice(1), (clause, clauseLocation) => {
+    if (clause.length !== 2) {
+      return false
+    }
+    clauses.push(new CondClause(clause[0], clause[1], clauseLocation))
+    return true
+  })
+  return otherwise === false ? undefined : new ExprCond(clauses, otherwise, location)
+}
 
-  constructor(tag: string) {
-    this.tag = tag
+function buildCase(items: Expr[], location: Span): ExprCase | undefined {
+  if (items.length < 2) {
+    return undefined
   }
+  let clauses: CaseClause[] = []
+  let otherwise = buildClauses(items.slice(2), (clause, clauseLocation) => {
+    let [head, body] = clause
+    let values = head instanceof SExpr ? (head.caller === undefined ? [] : [head.caller].concat(head.args)) : [head]
+    if (clause.length !== 2 || !values.every(isCaseValue)) {
+      return false
+    }
+    clauses.push(new CaseClause(values, body, clauseLocation))
+    return true
+  })
+  return otherwise === false ? undefined : new ExprCase(items[1], clauses, otherwise, location)
+}
 
-  addArrowTo(vertex: StateVertex, bound: string, guard?: StateChangeGuard): this {
-    this.outs.push(new StateEdge(this, vertex, bound, guard))
-    return this
+/**
+ * Builds a match expression from the items of `(match value clauses...)` generated by a macro expansion.
+ * @throws {SyntaxError} if a pattern is malformed
+ */
+function buildMatch(items: Expr[], location: Span): ExprMatch | undefined {
+  if (items.length < 3) {
+    return undefined
+  }
+  let clauses: MatchClause[] = []
+  for (let i = 2; i < items.length; i++) {
+    let clause = items[i]
+    if (!(clause instanceof SExpr) || clause.caller === undefined) {
+      return undefined
+    }
+    let pattern = toPattern(clause.caller)
+    let [mark, guard, body] = clause.args
+    if (clause.args.length === 1) {
+      clauses.push(new MatchClause(pattern, undefined, mark, clause.location))
+    } else if (clause.args.length === 3 && mark instanceof Var && mark.id === 'when') {
+      clauses.push(new MatchClause(pattern, guard, body, clause.location))
+    } else {
+      return undefined
+    }
   }
+  return new ExprMatch(items[1], clauses, location)
 }
 
-let spPointers: StatePointer[] = []
-
-/** macro parser kernel */
-class StatePointer {
-  to: StateVertex
-
-  constructor(to: StateVertex) {
-    this.to = to
+/**
+ * Builds a try expression from the items of `(try body clauses...)` generated by a macro expansion.
+ */
+function buildTry(items: Expr[], location: Span): ExprTry | undefined {
+  if (items.length < 3) {
+    return undefined
+  }
+  let catches: CatchClause[] = []
+  let finalizer: Expr | undefined = undefined
+  for (let i = 2; i < items.length; i++) {
+    let clause = items[i]
+    if (!(clause instanceof SExpr) || !(clause.caller instanceof Var) || finalizer !== undefined) {
+      return undefined
+    }
+    let args = clause.args
+    if (clause.caller.id === 'finally' && args.length === 1) {
+      finalizer = args[0]
+    } else if (clause.caller.id === 'catch' && (args.length === 2 || args.length === 3)) {
+      let name = args[args.length - 2]
+      let kinds = args.length === 2 ? [] : args[0] instanceof Var ? [args[0].id] : paramsOf(args[0])
+      if (!(name instanceof Var) || KEYWORD[name.id] !== undefined || kinds === undefined) {
+        return undefined
+      }
+      catches.push(new CatchClause(kinds, name.id, args[args.length - 1], clause.location))
+    } else {
+      return undefined
+    }
   }
+  return new ExprTry(items[1], catches, finalizer, location)
+}
 
-  clone(): StatePointer {
-    return new StatePointer(this.to)
+/**
+ * Builds an expression from the items of a parenthesized expression generated by a macro expansion or a quasiquote,
+ * recognizing keywords and macro calls the same way the parser does.
+ * @param scope where the macro calls are resolved, unless the macro name is written in the body of a macro
+ * @throws {SyntaxError} if a keyword is not followed by what it expects
+ */
+export function buildForm(items: Expr[], location: Span, scope: MacroScope): Expr {
+  let head = items[0]
+  if (!(head instanceof Var)) {
+    return new SExpr(items, location)
   }
 
-  run(items: Expr[], callLocation: string, structMap: StructMap): void {
-    let item = items[0]
-    if (item !== undefined) {
-      let outs = this.to.outs
-      if (outs.length === 0) {
-        if (items.length > 0) {
-          throw new SyntaxError(`redundant macro arguments${callLocation}`)
-        } else {
-          return
-        }
-      } else if (outs.length === 1 && outs[0].guard === undefined) {
-        this.to = outs[0].to
-        this.run(items, callLocation, structMap)
-      } else {
-        // this vertex has many outer edges. for every edge accepting the first expr of items,
-        // make a new clone of pointer and let it goes one by one.
-        for (let i in outs) {
-          let out = outs[i]
-          if (out.guard === undefined) {
-            let p = this.clone()
-            p.to = out.to
-            spPointers.push(p)
-            p.run(items, callLocation, structMap)
-          } else if (out.guard(item)) {
-            // if two arg have the same bound name, the former will be shadowed by the latter
-            structMap.set(out.bound, item)
-            // TODO: deal with repeater
-
-            let p = this.clone()
-            p.to = out.to
-            spPointers.push(p)
-            p.run(items.slice(1), callLocation, structMap)
-          }
-        }
+  switch (head.id) {
+    case 'let': {
+      let [_, target, body] = items
+      if (items.length === 3 && target instanceof Var && KEYWORD[target.id] === undefined) {
+        return new ExprLetVar(target.id, body, location)
+      }
+      let params = items.length === 3 ? paramsOf(target) : undefined
+      if (params !== undefined && params.length > 0) {
+        return new ExprLetFunc(params[0], params.slice(1), body, location)
+      }
+      throw new SyntaxError(`malformed 'let' in macro expansion`, location)
+    }
+    case '\\': {
+      let [_, args, body] = items
+      let params = items.length === 3 ? paramsOf(args) : undefined
+      if (params !== undefined) {
+        return new ExprLambda(params, body, location)
+      }
+      throw new SyntaxError(`malformed '\\' in macro expansion`, location)
+    }
+    case 'do':
+      return new ExprDo(items.slice(1), location)
+    case '@':
+      return new ExprExec(items.slice(1), location)
+    case 'if': {
+      let expr = buildIf(items, location)
+      if (expr !== undefined) {
+        return expr
+      }
+      throw new SyntaxError(`malformed 'if' in macro expansion`, location)
+    }
+    case 'cond': {
+      let expr = buildCond(items, location)
+      if (expr !== undefined) {
+        return expr
+      }
+      throw new SyntaxError(`malformed 'cond' in macro expansion`, location)
+    }
+    case 'when':
+    case 'unless':
+      if (items.length >= 3) {
+        return new ExprWhen(items[1], items.slice(2), head.id === 'unless', location)
+      }
+      throw new SyntaxError(`malformed '${head.id}' in macro expansion`, location)
+    case 'case': {
+      let expr = buildCase(items, location)
+      if (expr !== undefined) {
+        return expr
+      }
+      throw new SyntaxError(`malformed 'case' in macro expansion`, location)
+    }
+    case 'match': {
+      let expr = buildMatch(items, location)
+      if (expr !== undefined) {
+        return expr
+      }
+      throw new SyntaxError(`malformed 'match' in macro expansion`, location)
+    }
+    case 'try': {
+      let expr = buildTry(items, location)
+      if (expr !== undefined) {
+        return expr
       }
+      throw new SyntaxError(`malformed 'try' in macro expansion`, location)
     }
+    case 'macro':
+      throw new SyntaxError(`macro definition in macro expansion is not supported`, location)
   }
-}
 
-// Macro expansion automata
-class MacroPattern {
-  macro: Macro
-  /** a state is a unique string */
-  graph: StateVertex[] = []
-  /** a state and a tokentype forms the key; value is a function manipulating the stack and returns the next state */
-  structMap: StructMap = new Map()
+  // macro names written in the macro body are resolved where the macro is defined
+  let macro = (head.macro !== undefined ? head.macro.scope : scope).lookup(head.id)
+  if (macro !== undefined) {
+    return new MacroCall(macro, items, location, scope)
+  }
+  return new SExpr(items, location)
+}
 
-  constructor(macro: Macro, args: MacroArg[]) {
-    this.macro = macro
-    // init graph
+/**
+ * Expands the macro call to generate an equivalent expression at the same position, which is a do expression if the
+ * macro body expands to several expressions.
+ * The call arguments are matched by the automaton built from the macro pattern, and the captured arguments are
+ * substituted into the macro body.
+ */
+function expandMacro(call: MacroCall): Expr {
+  const macro = call.macro
+  if (macro instanceof ProcMacro) {
+    let expander = call.scope.getExpander()
+    if (expander === undefined) {
+      throw new SyntaxError(`procedural macro '${macro.name}' cannot be expanded without an evaluator`, call.location)
+    }
+    return expander(macro, call.items.slice(1), call.location)
+  }
+
+  let args = call.items.slice(1)
+  let structMap = macro.pattern.run(args)
+  if (structMap instanceof MatchFailure) {
+    // the error is located at the argument where the matching stops, or at the call if it runs out of arguments
+    let found = 'no more arguments in the call'
+    let span = call.location
+    if (structMap.index < args.length) {
+      let arg = args[structMap.index]
+      found = `argument ${structMap.index + 1} '${showExpr(arg)}'`
+      span = arg.location
+    }
+    throw new SyntaxError(`arguments do not match the pattern of macro '${macro.name}' defined${macro.location}: `
+      + `expected ${structMap.expected.join(' or ')}, but got ${found}`, span)
   }
 
-  run(items: Expr[], callLocation: string): void {
-    items.push(new Var('%#', '')) // end symbol
-    spPointers = [new StatePointer(this.graph[0])]
-    spPointers[0].run(items, callLocation, this.structMap)
+  let exprs = replaceMacroExpr(macro.body, new MacroExpansion(macro, call, structMap))
+  return exprs.length === 1 ? exprs[0] : new ExprDo(exprs, call.location)
+}
+
+/**
+ * Expands the macro calls in the expression, outermost first.
+ * @param once if `true`, expands only the outermost macro calls, and only by one step
+ * @throws {SyntaxError} if the arguments of a macro call do not match its pattern
+ */
+export function expandMacros(expr: Expr, once: boolean = false): Expr {
+  const expand = (e: Expr) => expandMacros(e, once)
+
+  if (expr instanceof MacroCall) {
+    let expanded = expandMacro(expr)
+    return once ? expanded : expand(expanded)
+  } else if (expr instanceof SExpr) {
+    let items = expr.caller === undefined ? [] : [expr.caller].concat(expr.args)
+    return new SExpr(items.map(expand), expr.location)
+  } else if (expr instanceof ListExpr) {
+    return new ListExpr(expr.items.map(expand), expr.location)
+  } else if (expr instanceof DictExpr) {
+    let entries = expr.entries.map(entry => new DictEntry(expand(entry.key), expand(entry.value)))
+    return new DictExpr(entries, expr.location)
+  } else if (expr instanceof ExprLetVar) {
+    return new ExprLetVar(expr.id, expand(expr.expr), expr.location)
+  } else if (expr instanceof ExprLetFunc) {
+    return new ExprLetFunc(expr.id, expr.params, expand(expr.body), expr.location)
+  } else if (expr instanceof ExprLambda) {
+    return new ExprLambda(expr.args, expand(expr.body), expr.location)
+  } else if (expr instanceof ExprDo) {
+    return new ExprDo(expr.exprs.map(expand), expr.location)
+  } else if (expr instanceof ExprExec) {
+    return new ExprExec(expr.exprs.map(expand), expr.location)
+  } else if (expr instanceof ExprIf) {
+    let alternative = expr.alternative === undefined ? undefined : expand(expr.alternative)
+    return new ExprIf(expand(expr.cond), expand(expr.consequent), alternative, expr.location)
+  } else if (expr instanceof ExprCond) {
+    let clauses = expr.clauses.map(c => new CondClause(expand(c.test), expand(c.body), c.location))
+    let otherwise = expr.otherwise === undefined ? undefined : expand(expr.otherwise)
+    return new ExprCond(clauses, otherwise, expr.location)
+  } else if (expr instanceof ExprWhen) {
+    return new ExprWhen(expand(expr.cond), expr.body.map(expand), expr.negated, expr.location)
+  } else if (expr instanceof ExprCase) {
+    let clauses = expr.clauses.map(c => new CaseClause(c.values, expand(c.body), c.location))
+    let otherwise = expr.otherwise === undefined ? undefined : expand(expr.otherwise)
+    return new ExprCase(expand(expr.key), clauses, otherwise, expr.location)
+  } else if (expr instanceof ExprMatch) {
+    let clauses = expr.clauses.map(c =>
+      new MatchClause(c.pattern, c.guard === undefined ? undefined : expand(c.guard), expand(c.body), c.location))
+    return new ExprMatch(expand(expr.subject), clauses, expr.location)
+  } else if (expr instanceof ExprTry) {
+    let catches = expr.catches.map(c => new CatchClause(c.kinds, c.name, expand(c.body), c.location))
+    let finalizer = expr.finalizer === undefined ? undefined : expand(expr.finalizer)
+    return new ExprTry(expand(expr.body), catches, finalizer, expr.location)
+  } else if (expr instanceof Quasiquote) {
+    return new Quasiquote(mapUnquotes(expr.template, expand), expr.macros, expr.location)
+  } else {
+    return expr
   }
 }
 
-function replaceMacroExpr(expr: MacroExpr, structMap: StructMap): Expr {
-  throw 'not implemented'
+/**
+ * Tests whether there are macro calls left in the expression.
+ */
+export function hasMacroCall(expr: Expr): boolean {
+  if (expr instanceof MacroCall) {
+    return true
+  } else if (expr instanceof SExpr) {
+    return (expr.caller !== undefined && hasMacroCall(expr.caller)) || expr.args.some(hasMacroCall)
+  } else if (expr instanceof ListExpr) {
+    return expr.items.some(hasMacroCall)
+  } else if (expr instanceof DictExpr) {
+    return expr.entries.some(entry => hasMacroCall(entry.key) || hasMacroCall(entry.value))
+  } else if (expr instanceof ExprLetVar) {
+    return hasMacroCall(expr.expr)
+  } else if (expr instanceof ExprLetFunc || expr instanceof ExprLambda) {
+    return hasMacroCall(expr.body)
+  } else if (expr instanceof ExprDo || expr instanceof ExprExec) {
+    return expr.exprs.some(hasMacroCall)
+  } else if (expr instanceof ExprIf) {
+    return hasMacroCall(expr.cond) || hasMacroCall(expr.consequent)
+      || (expr.alternative !== undefined && hasMacroCall(expr.alternative))
+  } else if (expr instanceof ExprCond) {
+    return expr.clauses.some(c => hasMacroCall(c.test) || hasMacroCall(c.body))
+      || (expr.otherwise !== undefined && hasMacroCall(expr.otherwise))
+  } else if (expr instanceof ExprWhen) {
+    return hasMacroCall(expr.cond) || expr.body.some(hasMacroCall)
+  } else if (expr instanceof ExprCase) {
+    return hasMacroCall(expr.key) || expr.clauses.some(c => hasMacroCall(c.body))
+      || (expr.otherwise !== undefined && hasMacroCall(expr.otherwise))
+  } else if (expr instanceof ExprMatch) {
+    return hasMacroCall(expr.subject)
+      || expr.clauses.some(c => (c.guard !== undefined && hasMacroCall(c.guard)) || hasMacroCall(c.body))
+  } else if (expr instanceof ExprTry) {
+    return hasMacroCall(expr.body) || expr.catches.some(c => hasMacroCall(c.body))
+      || (expr.finalizer !== undefined && hasMacroCall(expr.finalizer))
+  } else if (expr instanceof Quasiquote) {
+    let found = false
+    mapUnquotes(expr.template, e => {
+      found = found || hasMacroCall(e)
+      return e
+    })
+    return found
+  } else {
+    return false
+  }
 }
 
 /**
- * Expands the macro call to generate an equivalent do expression at the same position.
- * This is actually an LR parser of macro call argument list. The syntax of the parser is defined by the macro definition.
- * See ./syntax_bnf for an example parsing.
+ * Maps the unquoted expressions in a quasiquote template.
  */
-function expandMacro(macro: Macro, items: Expr[], location: string): ExprDo {
-  throw new SyntaxError('macro: not implemented')
+function mapUnquotes(template: QuasiExpr, fn: (expr: Expr) => Expr): QuasiExpr {
+  if (template instanceof Unquote) {
+    return new Unquote(fn(template.expr), template.splicing, template.location)
+  } else if (template instanceof QuasiParen) {
+    return new QuasiParen(template.type, template.items.map(item => mapUnquotes(item, fn)), template.location)
+  } else {
+    return template
+  }
+}
 
-  macro.pattern.run(items, location)
+/**
+ * Prints the expression as RumLisp source.
+ */
+export function showExpr(expr: Expr): string {
+  if (expr instanceof Literal) {
+    let value = expr.value
+    return typeof value === 'string' ? quoteString(value) : typeof value === 'bigint' ? `${value}n` : `${value}`
+  } else if (expr instanceof Var) {
+    return expr.id
+  } else if (expr instanceof SExpr) {
+    let items = expr.caller === undefined ? [] : [expr.caller].concat(expr.args)
+    return `(${items.map(showExpr).join(' ')})`
+  } else if (expr instanceof ListExpr) {
+    return `[${expr.items.map(showExpr).join(' ')}]`
+  } else if (expr instanceof DictExpr) {
+    return `{${expr.entries.map(entry => `(${showExpr(entry.key)} ${showExpr(entry.value)})`).join(' ')}}`
+  } else if (expr instanceof ExprLetVar) {
+    return `(let ${expr.id} ${showExpr(expr.expr)})`
+  } else if (expr instanceof ExprLetFunc) {
+    return `(let (${[expr.id].concat(expr.params).join(' ')}) ${showExpr(expr.body)})`
+  } else if (expr instanceof ExprLambda) {
+    return `(\\ (${expr.args.join(' ')}) ${showExpr(expr.body)})`
+  } else if (expr instanceof ExprDo) {
+    return `(${['do'].concat(expr.exprs.map(showExpr)).join(' ')})`
+  } else if (expr instanceof ExprExec) {
+    return `(${['@'].concat(expr.exprs.map(showExpr)).join(' ')})`
+  } else if (expr instanceof ExprIf) {
+    let branches = expr.alternative === undefined ? [expr.consequent] : [expr.consequent, expr.alternative]
+    return `(${['if', showExpr(expr.cond)].concat(branches.map(showExpr)).join(' ')})`
+  } else if (expr instanceof ExprCond) {
+    let clauses = expr.clauses.map(c => `(${showExpr(c.test)} ${showExpr(c.body)})`)
+    if (expr.otherwise !== undefined) {
+      clauses.push(`(else ${showExpr(expr.otherwise)})`)
+    }
+    return `(${['cond'].concat(clauses).join(' ')})`
+  } else if (expr instanceof ExprWhen) {
+    return `(${[expr.negated ? 'unless' : 'when', showExpr(expr.cond)].concat(expr.body.map(showExpr)).join(' ')})`
+  } else if (expr instanceof ExprCase) {
+    let clauses = expr.clauses.map(c => {
+      let values = c.values.length === 1 ? showExpr(c.values[0]) : `(${c.values.map(showExpr).join(' ')})`
+      return `(${values} ${showExpr(c.body)})`
+    })
+    if (expr.otherwise !== undefined) {
+      clauses.push(`(else ${showExpr(expr.otherwise)})`)
+    }
+    return `(${['case', showExpr(expr.key)].concat(clauses).join(' ')})`
+  } else if (expr instanceof ExprMatch) {
+    let clauses = expr.clauses.map(c => {
+      let guard = c.guard === undefined ? [] : ['when', showExpr(c.guard)]
+      return `(${[showPattern(c.pattern)].concat(guard, [showExpr(c.body)]).join(' ')})`
+    })
+    return `(${['match', showExpr(expr.subject)].concat(clauses).join(' ')})`
+  } else if (expr instanceof ExprTry) {
+    let clauses = expr.catches.map(c => {
+      let kinds = c.kinds.length === 0 ? [] : [c.kinds.length === 1 ? c.kinds[0] : `(${c.kinds.join(' ')})`]
+      return `(${['catch'].concat(kinds, [c.name, showExpr(c.body)]).join(' ')})`
+    })
+    if (expr.finalizer !== undefined) {
+      clauses.push(`(finally ${showExpr(expr.finalizer)})`)
+    }
+    return `(${['try', showExpr(expr.body)].concat(clauses).join(' ')})`
+  } else if (expr instanceof MacroExport) {
+    return `(${['macro-export'].concat(expr.names).join(' ')})`
+  } else if (expr instanceof ProcMacro) {
+    return `(defmacro (${[expr.name].concat(expr.params).join(' ')}) ${showExpr(expr.body)})`
+  } else if (expr instanceof Macro) {
+    let pattern = [expr.name].concat(expr.args.map(showMacroArg)).join(' ')
+    return `(macro (${pattern}) ${showMacroExpr(expr.body)})`
+  } else if (expr instanceof MacroCall) {
+    return `(${expr.items.map(showExpr).join(' ')})`
+  } else if (expr instanceof Quasiquote) {
+    return `\`${showQuasiExpr(expr.template)}`
+  } else {
+    throw new Error('not possible')
+  }
+}
 
-  let result = replaceMacroExpr(macro.body, macro.pattern.structMap)
+function showMacroArg(arg: MacroArg): string {
+  if (arg instanceof Literal || arg instanceof Var) {
+    return showExpr(arg)
+  } else if (arg instanceof MacroArgStruct) {
+    return `%${arg.name === undefined ? '' : arg.name}{${arg.struct}}`
+  } else if (arg instanceof MacroArgSection) {
+    return `%${arg.name === undefined ? '' : arg.name}(${arg.subs.map(showMacroArg).join(' ')})`
+  } else if (arg instanceof MacroArgSelector) {
+    return `%${arg.name === undefined ? '' : arg.name}[${arg.subs.map(showMacroArg).join(' ')}]`
+  } else if (arg instanceof MacroArgParen) {
+    return `${arg.type}${arg.subs.map(showMacroArg).join(' ')}${closedParen(arg.type)}`
+  } else {
+    // the name of a repeater is written on the repeated argument
+    let repeated = showMacroArg(arg.arg)
+    if (arg.name !== undefined) {
+      repeated = `%${arg.name}${repeated.slice(1)}`
+    }
+    return `${repeated}%${arg.selector}`
+  }
+}
 
-  return new ExprDo([result])
+function showMacroExpr(expr: MacroExpr): string {
+  if (expr instanceof Literal || expr instanceof Var) {
+    return showExpr(expr)
+  } else if (expr instanceof MacroVar) {
+    return `${expr.intoList ? '%%' : '%'}${expr.name}`
+  } else {
+    return `${expr.type}${expr.exprs.map(showMacroExpr).join(' ')}${closedParen(expr.type)}`
+  }
 }
 
-// TODO: Test parseMacro
-// TODO: Implement expand of macros
+function showQuasiExpr(expr: QuasiExpr): string {
+  if (expr instanceof Literal || expr instanceof Var) {
+    return showExpr(expr)
+  } else if (expr instanceof Unquote) {
+    return `${expr.splicing ? ',@' : ','}${showExpr(expr.expr)}`
+  } else {
+    return `${expr.type}${expr.items.map(showQuasiExpr).join(' ')}${closedParen(expr.type)}`
+  }
+}
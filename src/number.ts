@@ -0,0 +1,74 @@
+// underscores may separate the digits, but not begin or end them
+const DECIMAL = /^-?\d(_?\d)*(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/
+const INTEGER = /^-?\d(_?\d)*$/
+const RADIXES: {[prefix: string]: [number, RegExp]} = {
+  'x': [16, /^[0-9a-fA-F](_?[0-9a-fA-F])*$/],
+  'o': [8, /^[0-7](_?[0-7])*$/],
+  'b': [2, /^[01](_?[01])*$/],
+}
+
+/**
+ * Tests whether the word is meant as a number, which is when it begins with a digit, or with a minus sign and a
+ * digit; such a word that is not a valid number is malformed rather than an identifier.
+ */
+export function isNumeric(word: string): boolean {
+  return /^-?\d/.test(word)
+}
+
+/**
+ * Parses a number literal: a decimal with an optional fraction and exponent as `1.5e3`, or an integer in hexadecimal
+ * as `0xFF`, octal as `0o755` or binary as `0b1010`, optionally negated and with underscores between the digits
+ * as `1_000_000`. An integer with the suffix `n` as `1024n` is an Integer.
+ * @returns `undefined` if the text is not a valid number literal
+ */
+export function parseNumber(text: string): number | bigint | undefined {
+  if (text.endsWith('n')) {
+    return parseInteger(text.slice(0, -1))
+  }
+
+  let negative = text[0] === '-'
+  let radix = radixOf(negative ? text.slice(1) : text)
+  if (radix !== undefined) {
+    let [base, digits] = radix
+    let n = parseInt(digits, base)
+    return negative ? -n : n
+  }
+
+  if (!DECIMAL.test(text)) {
+    return undefined
+  }
+  return parseFloat(text.replace(/_/g, ''))
+}
+
+/**
+ * Parses an integer literal without the suffix `n` as an Integer, which is exact however large it is.
+ * @returns `undefined` if the text is not a valid integer literal
+ */
+export function parseInteger(text: string): bigint | undefined {
+  let negative = text[0] === '-'
+  let radix = radixOf(negative ? text.slice(1) : text)
+  if (radix !== undefined) {
+    let [base, digits] = radix
+    let n = BigInt(`0${base === 16 ? 'x' : base === 8 ? 'o' : 'b'}${digits}`)
+    return negative ? -n : n
+  }
+
+  if (!INTEGER.test(text)) {
+    return undefined
+  }
+  return BigInt(text.replace(/_/g, ''))
+}
+
+/**
+ * @returns the base and the digits without underscores of a hexadecimal, octal or binary literal, or `undefined` if
+ * the text has no such prefix or its digits are malformed
+ */
+function radixOf(unsigned: string): [number, string] | undefined {
+  let radix = unsigned[0] === '0' ? RADIXES[unsigned.charAt(1).toLowerCase()] : undefined
+  if (radix === undefined) {
+    return undefined
+  }
+  let [base, pattern] = radix
+  let digits = unsigned.slice(2)
+  return pattern.test(digits) ? [base, digits.replace(/_/g, '')] : undefined
+}
@@ -1,10 +1,15 @@
 import * as Parser from './ll-parser-except'
+import { SyntaxError, Span, Position } from './lexer-except'
+import { renderExcerpt } from './diagnostic'
+import { quoteString } from './escape'
+import { parseNumber, parseInteger } from './number'
 import { Either, Right, Left } from './utils'
 import * as path from 'path'
 import * as fs from 'fs'
 import * as proc from 'child_process'
+import { Worker, isMainThread, parentPort, workerData, MessageChannel, MessagePort, receiveMessageOnPort } from 'worker_threads'
 
-export type Value = Unit | number | string | List | Dict | FileHandler | Closure | BuiltinClosure
+export type Value = Unit | Bool | number | bigint | string | List | Dict | FileHandler | Closure | BuiltinClosure | Code | RispError
 
 class Unit {
   toString(): string {
@@ -13,6 +18,23 @@ class Unit {
 }
 const unit = new Unit()
 
+/**
+ * `#t` or `#f`. A Boolean can also be called as `(#t then else)` to evaluate one of the expressions, as `if` does.
+ */
+class Bool {
+  value: boolean
+
+  constructor(value: boolean) {
+    this.value = value
+  }
+
+  toString(): string {
+    return this.value ? '#t' : '#f'
+  }
+}
+const boolTrue = new Bool(true)
+const boolFalse = new Bool(false)
+
 export class List {
   values: Value[]
 
@@ -31,52 +53,121 @@ export class List {
   }
 }
 
+/**
+ * A map whose keys are compared structurally, as by `=`, and kept in the order they are first set. A list or dict key
+ * is hashed when it is set, so changing it afterwards does not move its entry.
+ */
+export class ValueMap {
+  private entries: Map<string, [Value, Value]>
+
+  constructor(entries: [Value, Value][] = []) {
+    this.entries = new Map()
+    for (let i = 0; i < entries.length; i++) {
+      this.set(entries[i][0], entries[i][1])
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  get(key: Value): Value | undefined {
+    let entry = this.entries.get(hashKey(key))
+    return entry === undefined ? undefined : entry[1]
+  }
+
+  has(key: Value): boolean {
+    return this.entries.has(hashKey(key))
+  }
+
+  /**
+   * Sets the value under the key; an entry already under an equal key keeps its key and its place.
+   */
+  set(key: Value, value: Value): this {
+    let hash = hashKey(key)
+    let entry = this.entries.get(hash)
+    if (entry === undefined) {
+      this.entries.set(hash, [key, value])
+    } else {
+      entry[1] = value
+    }
+    return this
+  }
+
+  /**
+   * @returns the keys in the order they were first set
+   */
+  keys(): Value[] {
+    let keys: Value[] = []
+    this.entries.forEach(entry => keys.push(entry[0]))
+    return keys
+  }
+}
+
 export class Dict {
-  data: Map<Value, Value>
+  data: ValueMap
 
-  constructor(data: Map<Value, Value>) {
+  constructor(data: ValueMap) {
     this.data = data
   }
 
   toString(): string {
     let s = 'Dict { '
-    let keyIter = this.data.keys()
-    for (let key = keyIter.next(); !key.done; key = keyIter.next()) {
-      if (typeof key.value === 'string') {
-        if (key.value.startsWith('__')) {
+    let keys = this.data.keys()
+    for (let i = 0; i < keys.length; i++) {
+      let key = keys[i]
+      if (typeof key === 'string') {
+        if (key.startsWith('__')) {
           continue
         }
       }
-      let v = this.data.get(key.value)
+      let v = this.data.get(key)
       let vs = `${v}`
       if (typeof v === 'string') {
-        vs = `"${vs}"`
+        vs = quoteString(v)
       }
-      s += `${key.value}: ${vs}, `
+      s += `${key}: ${vs}, `
     }
     return s += '}'
   }
 
   repr(): string {
     let s = 'Dict { '
-    let keyIter = this.data.keys()
-    for (let key = keyIter.next(); !key.done; key = keyIter.next()) {
-      let v = this.data.get(key.value)
+    let keys = this.data.keys()
+    for (let i = 0; i < keys.length; i++) {
+      let v = this.data.get(keys[i])
       let vs = `${v}`
       if (typeof v === 'string') {
-        vs = `"${vs}"`
+        vs = quoteString(v)
       }
-      s += `${key.value}: ${vs}, `
+      s += `${keys[i]}: ${vs}, `
     }
     return s += '}'
   }
 }
 
+/**
+ * Code as data, built by quasiquotes and evaluated by `eval`.
+ */
+export class Code {
+  expr: Parser.Expr
+
+  constructor(expr: Parser.Expr) {
+    this.expr = expr
+  }
+
+  toString(): string {
+    return Parser.showExpr(this.expr)
+  }
+}
+
 class FileHandler {
   relpath: string
   abspath: string
   stats?: fs.Stats
   content?: string
+  /** why the file cannot be read */
+  readError?: string
   /** if this is a valid RumLisp source file, its content will be loaded into this Dict */
   mod?: Dict
 
@@ -91,21 +182,28 @@ class FileHandler {
         this.stats = fs.statSync(this.abspath)
         this.content = fs.readFileSync(this.abspath).toString()
       } catch (e) {
-        console.log(e)
+        this.readError = (e as Error).message
         return undefined
       }
     }
     return this.content
   }
 
+  /**
+   * Runs the file as a command, which is killed when the evaluation times out or is cancelled.
+   * @returns the output of the command, or `undefined` if it fails
+   */
   exec(args: string): string | undefined {
     try {
-      return proc.execSync(`${this.relpath} ${args}`).toString()
+      return budget.exec(`${this.relpath} ${args}`)
     } catch (e) {
       let err = e as Error
-      if (err.message.match(/Command failed/) !== null) {
+      if (budget.interruption() !== undefined) {
+        // the evaluation fails with the interruption
+        return undefined
+      } else if (err.message.match(/Command failed/) !== null) {
         try {
-          return proc.execSync(`${this.abspath} ${args}`).toString()
+          return budget.exec(`${this.abspath} ${args}`)
         } catch (e) {
           console.log(e)
         }
@@ -115,25 +213,31 @@ class FileHandler {
     }
   }
 
-  import(): Dict | undefined {
+  /**
+   * Evaluates the file as a module. Errors in evaluating the module are printed, and the module is still imported.
+   */
+  import(location: Span, env?: Env): Either<Dict, RispError> {
     this.read()
     if (this.content === undefined) {
-      console.error(`import failed from ${this.abspath}: could not read`)
-      return
+      return new Right(makeError('io-error', `import failed from ${this.abspath}: ${this.readError}`, location, env))
     }
 
-    const parser = new Parser.Parser(this.abspath, this.content)
-    let ast = parser.parse()
-    if (ast.isLeft()) {
+    let ast = Parser.parseModule(this.abspath, this.content, preludeMacros)
+    if (ast === undefined) {
+      return new Right(makeError('error', `import failed from ${this.abspath}: circular import`, location, env))
+    } else if (ast.isLeft()) {
       let env = makeInitialEnv()
-      let modMap = new Map<Value, Value>([['__path__', this.abspath], ['__content__', this.content]])
+      env.macroScope = ast.unwrapLeft().macros
+      let modMap = new ValueMap([['__path__', this.abspath], ['__content__', this.content]])
 
-      let exprs = ast.unwrapLeft()
+      let exprs = ast.unwrapLeft().exprs
       let vals: Value[] = []
       for (let i = 0; i < exprs.length; i++) {
         let val = evaluate(env, exprs[i])
         if (val.isLeft()) {
           vals.push(val.unwrapLeft())
+        } else if (UNCATCHABLE_KINDS.indexOf(val.unwrapRight().kind) >= 0) {
+          return new Right(val.unwrapRight())
         } else {
           console.error(`import failed from ${this.abspath}: ${val.unwrapRight()}`)
         }
@@ -149,18 +253,18 @@ class FileHandler {
       }
 
       this.mod = new Dict(modMap)
-      return this.mod
+      return new Left(this.mod)
     } else {
-      console.error(`import failed from ${this.abspath}: ${ast.unwrapRight()}`)
+      return new Right(inBuiltin(fromSyntaxError(ast.unwrapRight()), 'import', location, env))
     }
   }
 }
 
 class ClosureMeta {
   id: string
-  location: string
+  location: Span
 
-  constructor(id: string, location: string) {
+  constructor(id: string, location: Span) {
     this.id = id
     this.location = location
   }
@@ -171,12 +275,15 @@ export class Closure {
   env: Env
   params: string[]
   body: Parser.Expr
+  /** the compiled body */
+  code: Compiled
 
-  constructor(meta: ClosureMeta, env: Env, params: string[], body: Parser.Expr) {
+  constructor(meta: ClosureMeta, env: Env, params: string[], body: Parser.Expr, code: Compiled) {
     this.meta = meta
     this.env = env
     this.params = params
     this.body = body
+    this.code = code
   }
 
   toString(): string {
@@ -185,48 +292,48 @@ export class Closure {
     return `Closure (${this.meta.id} ${argList}) Expr {env}`
   }
 
-  // refactor: let function itself decide whether to evaluate the arguments
-  // call(args: Value[], location: string): Either<Value, string> {
-  call(argEnv: Env, args: Parser.Expr[], location: string): Either<Value, string> {
-    if (args.length !== this.params.length) {
-      return new Right(`number of arguments: function '${this.meta.id}' defined${this.meta.location}: expected ${this.params.length}, got ${args.length}${location}${formatStackTrace('', argEnv)}`)
-    }
-
-    // current: user-defined functions must evaluate arguments in the beginning
-    let vals: Value[] = []
+  /**
+   * Calls the function with evaluated arguments.
+   */
+  apply(vals: Value[], location: Span, argEnv: Env): Either<Value, RispError> {
+    return this.bind(vals, location, argEnv).handle<Either<Value, RispError>>(
+      env => run(env, this.code),
+      err => new Right(err)
+    )
+  }
 
-    for (let i in args) {
-      let val = evaluate(argEnv, args[i])
-      if (val.isLeft()) {
-        vals.push(val.unwrapLeft())
-      } else {
-        return val
-      }
+  /**
+   * Binds evaluated arguments to the parameters.
+   * @returns the environment to evaluate the body in
+   */
+  bind(vals: Value[], location: Span, argEnv: Env): Either<Env, RispError> {
+    if (vals.length !== this.params.length) {
+      return new Right(makeError('arity-error', `number of arguments: function '${this.meta.id}' defined${this.meta.location}: expected ${this.params.length}, got ${vals.length}`, location, argEnv))
     }
 
-    let env: Env = this.env
-    for (let i in vals) {
-      let p = this.params[i]
-      let a = vals[i]
-      env = env.pushed(this.meta.id, this.meta.location)
-      env.set(p, a)
+    // the call has a single frame holding all the parameters
+    let env = new Env(this.meta.id, location, this.env, argEnv)
+    env.args = vals
+    for (let i = 0; i < vals.length; i++) {
+      env.set(this.params[i], vals[i])
     }
 
-    return evaluate(env, this.body)
+    return new Left(env)
   }
 }
 
 class BuiltinClosure {
   id: string
   params: string[]
-  _call?: (args: Value[], location: string, env?: Env) => Either<Value, string>
-  _callExpr?: (argEnv: Env, args: Parser.Expr[], location: string, env?: Env) => Either<Value, string>
+  /** called with the values of the arguments, and where each argument is */
+  _call?: (args: Value[], location: Span, env?: Env, argLocations?: Span[]) => Either<Value, RispError>
+  _callExpr?: (argEnv: Env, args: Parser.Expr[], location: Span, env?: Env) => Either<Value, RispError>
 
   constructor(
     id: string,
     params: string[],
-    call?: (args: Value[], location: string, env?: Env) => Either<Value, string>,
-    callExpr?: (argEnv: Env, args: Parser.Expr[], location: string, env?: Env) => Either<Value, string>
+    call?: (args: Value[], location: Span, env?: Env, argLocations?: Span[]) => Either<Value, RispError>,
+    callExpr?: (argEnv: Env, args: Parser.Expr[], location: Span, env?: Env) => Either<Value, RispError>
   ) {
     this.id = id
     this.params = params
@@ -234,15 +341,9 @@ class BuiltinClosure {
     this._callExpr = callExpr
   }
 
-  call(argEnv: Env, args: Parser.Expr[], location: string): Either<Value, string> {
+  call(argEnv: Env, args: Parser.Expr[], location: Span): Either<Value, RispError> {
     if (args.length !== this.params.length) {
-      return new Right(`number of arguments: function '${this.id}': expected ${this.params.length}, got ${args.length}${location}${formatStackTrace('', argEnv)}`)
-    }
-
-    if (this === boolTrue) {
-      return evaluate(argEnv, args[0])
-    } else if (this === boolFalse) {
-      return evaluate(argEnv, args[1])
+      return new Right(makeError('arity-error', `number of arguments: function '${this.id}': expected ${this.params.length}, got ${args.length}`, location, argEnv))
     }
 
     if (this._call !== undefined) {
@@ -257,7 +358,7 @@ class BuiltinClosure {
         }
       }
 
-      return this._call(vals, location, argEnv)
+      return this._call(vals, location, argEnv, args.map(arg => arg.location))
     } else if (this._callExpr !== undefined) {
       return this._callExpr(argEnv, args, location, argEnv)
     } else {
@@ -270,144 +371,391 @@ class BuiltinClosure {
   }
 }
 
-const boolTrue: Value = new BuiltinClosure('#t', ['$0', '$1'], (args, _) => {
-  return new Left(args[0])
-})
+/**
+ * Tests whether the value is a Number or an Integer.
+ */
+function isNumber(v: Value): v is number | bigint {
+  return typeof v === 'number' || typeof v === 'bigint'
+}
+
+/**
+ * Gets the value as an index into a string or a list, which is a Number, or an Integer within the safe integers.
+ * @returns `undefined` if the value is not such a number
+ */
+function asIndex(v: Value): number | undefined {
+  if (typeof v === 'number') {
+    return v
+  } else if (typeof v === 'bigint' && v >= BigInt(Number.MIN_SAFE_INTEGER) && v <= BigInt(Number.MAX_SAFE_INTEGER)) {
+    return Number(v)
+  }
+  return undefined
+}
+
+/** the most bits an Integer may be shifted to the left by, which keeps it well within the size a bigint may have */
+const MAX_SHIFT = BigInt(1 << 20)
+
+/**
+ * Converts the operands of an arithmetic or bitwise operation to Integers, if either is an Integer and the other is an
+ * Integer or a whole Number. This is the rule for mixing them: an Integer with a whole Number gives an Integer, so
+ * that it stays exact, and with any other Number gives a Number in arithmetic and is not accepted by bitwise operations.
+ */
+function integerOperands(l: Value, r: Value): [bigint, bigint] | undefined {
+  if (!isNumber(l) || !isNumber(r) || (typeof l !== 'bigint' && typeof r !== 'bigint')) {
+    return undefined
+  }
+  if ((typeof l === 'number' && !Number.isInteger(l)) || (typeof r === 'number' && !Number.isInteger(r))) {
+    return undefined
+  }
+  return [BigInt(l), BigInt(r)]
+}
+
+/**
+ * Tests whether the values are structurally equal: lists with equal items in order, dicts with equal values under the
+ * same keys, and a Number equal to an Integer of the same value. Other values are equal only if they are the same.
+ */
+function valuesEqual(l: Value, r: Value): boolean {
+  if (l === r) {
+    // also ends the comparison of a list or dict that contains itself
+    return true
+  } else if (isNumber(l) && isNumber(r)) {
+    // == compares a Number with an Integer by value
+    return l == r
+  } else if (l instanceof List && r instanceof List) {
+    if (l.values.length !== r.values.length) {
+      return false
+    }
+    for (let i = 0; i < l.values.length; i++) {
+      if (!valuesEqual(l.values[i], r.values[i])) {
+        return false
+      }
+    }
+    return true
+  } else if (l instanceof Dict && r instanceof Dict) {
+    if (l.data.size !== r.data.size) {
+      return false
+    }
+    let keys = l.data.keys()
+    for (let i = 0; i < keys.length; i++) {
+      let rv = r.data.get(keys[i])
+      if (rv === undefined || !valuesEqual(l.data.get(keys[i])!, rv)) {
+        return false
+      }
+    }
+    return true
+  } else if (l instanceof Unit && r instanceof Unit) {
+    return true
+  } else {
+    return l === r
+  }
+}
+
+/**
+ * Orders numbers by value, strings by their characters and lists lexicographically by their items, where a list
+ * comes before the longer lists it begins.
+ * @returns -1, 0 or 1 if the left value is less than, equal to or greater than the right one, or `undefined` if the
+ * values cannot be ordered
+ */
+function compareValues(l: Value, r: Value): number | undefined {
+  if ((isNumber(l) && isNumber(r)) || (typeof l === 'string' && typeof r === 'string')) {
+    return l < r ? -1 : l > r ? 1 : 0
+  } else if (l instanceof List && r instanceof List) {
+    let length = Math.min(l.values.length, r.values.length)
+    for (let i = 0; i < length; i++) {
+      let order = compareValues(l.values[i], r.values[i])
+      if (order !== 0) {
+        return order
+      }
+    }
+    return l.values.length < r.values.length ? -1 : l.values.length > r.values.length ? 1 : 0
+  } else {
+    return undefined
+  }
+}
+
+/** the numbers identifying the values that are keyed by their identity */
+const keyIds = new WeakMap<object, number>()
+let nextKeyId = 0
+
+/**
+ * Hashes the value as a dict key, such that the hashes of two values are the same if and only if the values are
+ * equal by `valuesEqual`. Values without a structure, as functions and files, are hashed by their identity, and so are
+ * lists and dicts with a cycle in them, e.g. a dict containing itself.
+ */
+function hashKey(v: Value): string {
+  let hash = structuralHash(v, [])
+  return hash === undefined ? identityHash(v as object) : hash
+}
+
+/**
+ * @param visiting the lists and dicts the value is in
+ * @returns `undefined` if the value contains one of the lists and dicts it is in
+ */
+function structuralHash(v: Value, visiting: object[]): string | undefined {
+  if (typeof v === 'string') {
+    return JSON.stringify(v)
+  } else if (typeof v === 'bigint') {
+    return `${v}`
+  } else if (typeof v === 'number') {
+    // a whole Number is hashed as the Integer it equals
+    return Number.isInteger(v) ? `${BigInt(v)}` : `${v}`
+  } else if (v instanceof List || v instanceof Dict) {
+    if (visiting.indexOf(v) >= 0) {
+      return undefined
+    }
+    visiting.push(v)
+    let hash = v instanceof List ? listHash(v, visiting) : dictHash(v, visiting)
+    visiting.pop()
+    return hash
+  } else if (v instanceof Unit || v instanceof Bool) {
+    return `${v}`
+  } else {
+    return identityHash(v)
+  }
+}
+
+function listHash(list: List, visiting: object[]): string | undefined {
+  let items: string[] = []
+  for (let i = 0; i < list.values.length; i++) {
+    let item = structuralHash(list.values[i], visiting)
+    if (item === undefined) {
+      return undefined
+    }
+    items.push(item)
+  }
+  return `[${items.join(' ')}]`
+}
+
+function dictHash(dict: Dict, visiting: object[]): string | undefined {
+  let keys = dict.data.keys()
+  let entries: string[] = []
+  for (let i = 0; i < keys.length; i++) {
+    let key = structuralHash(keys[i], visiting)
+    let value = structuralHash(dict.data.get(keys[i])!, visiting)
+    if (key === undefined || value === undefined) {
+      return undefined
+    }
+    entries.push(`${key}: ${value}`)
+  }
+  // entries are sorted, since the order of the keys does not matter to equality
+  return `{${entries.sort().join(', ')}}`
+}
 
-const boolFalse: Value = new BuiltinClosure('#f', ['$0', '$1'], (args, _) => {
-  return new Left(args[1])
-})
+function identityHash(v: object): string {
+  let id = keyIds.get(v)
+  if (id === undefined) {
+    id = nextKeyId++
+    keyIds.set(v, id)
+  }
+  return `#${id}`
+}
 
-function isBool(v: Value): boolean {
-  return v === boolTrue || v === boolFalse
+/**
+ * Makes the error of a condition that is not a Boolean.
+ * @param form the name of the special form the condition is in
+ */
+function conditionError(cond: Value, form: string, location: Span, env: Env): RispError {
+  return makeError('type-error', `condition of '${form}' is not a Boolean: ${reprValue(cond)} of type ${showValueType(cond)}`, location, env)
 }
 
 function showValueType(v: Value): string {
   return typeof v === 'number' ? 'Number' :
+    typeof v === 'bigint' ? 'Integer' :
     typeof v === 'string' ? 'String' :
-    isBool(v) ? 'Boolean' :
+    v instanceof Bool ? 'Boolean' :
     v instanceof Unit ? '()' :
     v instanceof List ? 'List' :
     v instanceof Dict ? 'Dict' :
     v instanceof Closure ? 'Function' :
     v instanceof BuiltinClosure ? 'Function' :
+    v instanceof Code ? 'Code' :
+    v instanceof RispError ? 'Error' :
       '(unknown)'
 }
 
+/**
+ * Shows the value as it is written in source where possible, e.g. strings in quotes.
+ */
+function reprValue(v: Value): string {
+  if (typeof v === 'string') {
+    return quoteString(v)
+  } else if (typeof v === 'bigint') {
+    return `${v}n`
+  } else if (v instanceof Dict) {
+    return v.repr()
+  } else {
+    return `${v}`
+  }
+}
+
 export const BUILTINS: {[keys: string]: () => Value} = {
   'add': () =>
     new BuiltinClosure('add', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l + r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] + integers[1])
+      } else if (isNumber(l) && isNumber(r)) {
+        return new Left(Number(l) + Number(r))
       } else if (typeof l === 'string' && typeof r === 'string') {
         return new Left(l + r)
       } else if (l instanceof List && r instanceof List) {
         return new Left(new List(l.values.concat(r.values)))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'add'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'add'`, location, env))
       }
     })
   ,
   'sub': () =>
     new BuiltinClosure('sub', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l - r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] - integers[1])
+      } else if (isNumber(l) && isNumber(r)) {
+        return new Left(Number(l) - Number(r))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'sub'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'sub'`, location, env))
       }
     })
   ,
   'mul': () =>
     new BuiltinClosure('mul', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l * r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] * integers[1])
+      } else if (isNumber(l) && isNumber(r)) {
+        return new Left(Number(l) * Number(r))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'mul'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'mul'`, location, env))
       }
     })
   ,
   'div': () =>
     new BuiltinClosure('div', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l / r)
+      } else if (integers !== undefined) {
+        if (integers[1] === BigInt(0)) {
+          return new Right(makeError('value-error', `division by zero in 'div'`, location, env))
+        }
+        return new Left(integers[0] / integers[1])
+      } else if (isNumber(l) && isNumber(r)) {
+        return new Left(Number(l) / Number(r))
       } else if (typeof l === 'string' && typeof r === 'string') {
         return new Left(path.join(l, r).replace(/\\/g, '/'))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'div'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'div'`, location, env))
       }
     })
   ,
   'mod': () =>
     new BuiltinClosure('mod', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l % r)
+      } else if (integers !== undefined) {
+        if (integers[1] === BigInt(0)) {
+          return new Right(makeError('value-error', `division by zero in 'mod'`, location, env))
+        }
+        return new Left(integers[0] % integers[1])
+      } else if (isNumber(l) && isNumber(r)) {
+        return new Left(Number(l) % Number(r))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'mod'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'mod'`, location, env))
       }
     })
   ,
   'band': () =>
     new BuiltinClosure('band', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l & r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] & integers[1])
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'band'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'band'`, location, env))
       }
     })
   ,
   'bor': () =>
     new BuiltinClosure('bor', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l | r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] | integers[1])
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'bor'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'bor'`, location, env))
       }
     })
   ,
   'bxor': () =>
     new BuiltinClosure('bxor', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l ^ r)
+      } else if (integers !== undefined) {
+        return new Left(integers[0] ^ integers[1])
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'bxor'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'bxor'`, location, env))
       }
     })
   ,
   'bcom': () =>
-    new BuiltinClosure('add', ['$0'], (args, location, env) => {
+    new BuiltinClosure('bcom', ['$0'], (args, location, env) => {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(~l)
+      } else if (typeof l === 'bigint') {
+        return new Left(~l)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'bcom'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'bcom'`, location, env))
       }
     })
   ,
   '<<': () =>
     new BuiltinClosure('<<', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l << r)
+      } else if (integers !== undefined) {
+        if (integers[1] > MAX_SHIFT) {
+          return new Right(makeError('value-error', `shift count ${integers[1]} out of range for '<<', which shifts left by at most ${MAX_SHIFT} bits`, location, env))
+        }
+        return new Left(integers[0] << integers[1])
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for '<<'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for '<<'`, location, env))
       }
     })
   ,
   '>>': () =>
     new BuiltinClosure('>>', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
+      let integers = integerOperands(l, r)
       if (typeof l === 'number' && typeof r === 'number') {
         return new Left(l >> r)
+      } else if (integers !== undefined) {
+        // a negative count shifts to the left
+        if (-integers[1] > MAX_SHIFT) {
+          return new Right(makeError('value-error', `shift count ${integers[1]} out of range for '>>', which shifts left by at most ${MAX_SHIFT} bits`, location, env))
+        }
+        return new Left(integers[0] >> integers[1])
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for '>>'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for '>>'`, location, env))
       }
     })
   ,
@@ -418,74 +766,105 @@ export const BUILTINS: {[keys: string]: () => Value} = {
   '=': () =>
     new BuiltinClosure('=', ['$0', '$1'], (args, _) => {
       let [l, r] = args
-      return new Left(l === r ? boolTrue : boolFalse)
+      return new Left(valuesEqual(l, r) ? boolTrue : boolFalse)
     })
   ,
   '!=': () =>
     new BuiltinClosure('!=', ['$0', '$1'], (args, _) => {
       let [l, r] = args
-      return new Left(l !== r ? boolTrue : boolFalse)
+      return new Left(valuesEqual(l, r) ? boolFalse : boolTrue)
+    })
+  ,
+  'compare': () =>
+    new BuiltinClosure('compare', ['$0', '$1'], (args, location, env) => {
+      let [l, r] = args
+      let order = compareValues(l, r)
+      if (order !== undefined) {
+        return new Left(order)
+      } else {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'compare'`, location, env))
+      }
     })
   ,
   'lt': () =>
     new BuiltinClosure('lt', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
-      if (typeof l === 'number' && typeof r === 'number') {
-        return new Left(l < r ? boolTrue : boolFalse)
-      } else if (typeof l === 'string' && typeof r === 'string') {
-        return new Left(l < r ? boolTrue : boolFalse)
-      } else if (l instanceof List && r instanceof List) {
-        return new Left(l < r ? boolTrue : boolFalse)
+      let order = compareValues(l, r)
+      if (order !== undefined) {
+        return new Left(order < 0 ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'lt'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'lt'`, location, env))
       }
     })
   ,
   'gt': () =>
     new BuiltinClosure('gt', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
-      if (typeof l === 'number' && typeof r === 'number') {
-        return new Left(l > r ? boolTrue : boolFalse)
-      } else if (typeof l === 'string' && typeof r === 'string') {
-        return new Left(l > r ? boolTrue : boolFalse)
-      } else if (l instanceof List && r instanceof List) {
-        return new Left(l > r ? boolTrue : boolFalse)
+      let order = compareValues(l, r)
+      if (order !== undefined) {
+        return new Left(order > 0 ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'gt'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'gt'`, location, env))
       }
     })
   ,
   'le': () =>
     new BuiltinClosure('le', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
-      if (typeof l === 'number' && typeof r === 'number') {
-        return new Left(l <= r ? boolTrue : boolFalse)
-      } else if (typeof l === 'string' && typeof r === 'string') {
-        return new Left(l <= r ? boolTrue : boolFalse)
-      } else if (l instanceof List && r instanceof List) {
-        return new Left(l <= r ? boolTrue : boolFalse)
+      let order = compareValues(l, r)
+      if (order !== undefined) {
+        return new Left(order <= 0 ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'le'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'le'`, location, env))
       }
     })
   ,
   'ge': () =>
     new BuiltinClosure('ge', ['$0', '$1'], (args, location, env) => {
       let [l, r] = args
-      if (typeof l === 'number' && typeof r === 'number') {
-        return new Left(l >= r ? boolTrue : boolFalse)
-      } else if (typeof l === 'string' && typeof r === 'string') {
-        return new Left(l >= r ? boolTrue : boolFalse)
-      } else if (l instanceof List && r instanceof List) {
-        return new Left(l >= r ? boolTrue : boolFalse)
+      let order = compareValues(l, r)
+      if (order !== undefined) {
+        return new Left(order >= 0 ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'ge'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)} ${showValueType(r)}) for 'ge'`, location, env))
       }
     })
   ,
   '#int': () =>
     new BuiltinClosure('#int', ['$0'], (args, location, env) => {
-      return new Right('not implemented: #int')
+      let [l] = args
+      if (typeof l === 'bigint') {
+        return new Left(l)
+      } else if (typeof l === 'number') {
+        if (!isFinite(l)) {
+          return new Right(makeError('value-error', `cannot convert ${l} to an Integer`, location, env))
+        }
+        return new Left(BigInt(Math.trunc(l)))
+      } else if (typeof l === 'string') {
+        let n = parseInteger(l.trim())
+        if (n === undefined) {
+          return new Right(makeError('value-error', `cannot parse ${quoteString(l)} as an Integer`, location, env))
+        }
+        return new Left(n)
+      } else {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for '#int'`, location, env))
+      }
+    })
+  ,
+  '#float': () =>
+    new BuiltinClosure('#float', ['$0'], (args, location, env) => {
+      let [l] = args
+      if (isNumber(l)) {
+        return new Left(Number(l))
+      } else if (typeof l === 'string') {
+        let n = parseNumber(l.trim())
+        if (n === undefined) {
+          return new Right(makeError('value-error', `cannot parse ${quoteString(l)} as a number`, location, env))
+        }
+        return new Left(Number(n))
+      } else {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for '#float'`, location, env))
+      }
     })
   ,
   'trunc': () =>
@@ -493,8 +872,10 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(Math.trunc(l))
+      } else if (typeof l === 'bigint') {
+        return new Left(l)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'trunc'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'trunc'`, location, env))
       }
     })
   ,
@@ -503,8 +884,10 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(Math.floor(l))
+      } else if (typeof l === 'bigint') {
+        return new Left(l)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'floor'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'floor'`, location, env))
       }
     })
   ,
@@ -513,8 +896,10 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(Math.ceil(l))
+      } else if (typeof l === 'bigint') {
+        return new Left(l)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'ceil'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'ceil'`, location, env))
       }
     })
   ,
@@ -523,8 +908,10 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(Math.round(l))
+      } else if (typeof l === 'bigint') {
+        return new Left(l)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'round'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'round'`, location, env))
       }
     })
   ,
@@ -533,10 +920,12 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [l] = args
       if (typeof l === 'number') {
         return new Left(Math.abs(l))
+      } else if (typeof l === 'bigint') {
+        return new Left(l < 0 ? -l : l)
       } else if (typeof l === 'string') {
         return new Left(path.resolve(l).replace(/\\/g, '/'))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'abs'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'abs'`, location, env))
       }
     })
   ,
@@ -549,27 +938,20 @@ export const BUILTINS: {[keys: string]: () => Value} = {
   'repr': () =>
     new BuiltinClosure('repr', ['$0'], (args, location, env) => {
       let [l] = args
-      if (typeof l === 'string') {
-        return new Left(`"${l}"`)
-      } else if (l instanceof Dict) {
-        return new Left(l.repr())
-      } else {
-        return new Left(`${l}`)
-      }
+      return new Left(reprValue(l))
     })
   ,
   'parse': () =>
     new BuiltinClosure('parse', ['$0'], (args, location, env) => {
       let [l] = args
       if (typeof l === 'string') {
-        let f = parseFloat(l)
-        if (isNaN(f)) {
-          throw new Error('number NaN')
-        } else {
-          return new Left(parseFloat(l))
+        let n = parseNumber(l.trim())
+        if (n === undefined) {
+          return new Right(makeError('value-error', `cannot parse ${quoteString(l)} as a number`, location, env))
         }
+        return new Left(n)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'parse'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'parse'`, location, env))
       }
     })
   ,
@@ -579,7 +961,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       if (typeof l === 'string') {
         return new Left(new List(l.split('')))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'chars'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'chars'`, location, env))
       }
     })
   ,
@@ -593,7 +975,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       } else if (l instanceof Dict) {
         return new Left(l.data.size === 0 ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'empty?'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'empty?'`, location, env))
       }
     })
   ,
@@ -605,70 +987,78 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       } else if (l instanceof List) {
         return new Left(l.values.length)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(l)}) for 'len'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(l)}) for 'len'`, location, env))
       }
     })
   ,
   'slice': () =>
     new BuiltinClosure('slice', ['iter', 'start', 'end'], (args, location, env) => {
       let [iter, st, ed] = args
-      if (typeof iter === 'string' && typeof st === 'number' && typeof ed === 'number') {
-        return new Left(iter.slice(st, ed))
-      } else if (iter instanceof List && typeof st === 'number' && typeof ed === 'number') {
-        return new Left(new List(iter.values.slice(st, ed)))
+      let start = asIndex(st)
+      let end = asIndex(ed)
+      if (typeof iter === 'string' && start !== undefined && end !== undefined) {
+        return new Left(iter.slice(start, end))
+      } else if (iter instanceof List && start !== undefined && end !== undefined) {
+        return new Left(new List(iter.values.slice(start, end)))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(iter)} ${showValueType(st)} ${showValueType(ed)}) for 'slice'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(iter)} ${showValueType(st)} ${showValueType(ed)}) for 'slice'`, location, env))
       }
     })
   ,
   'del-ins': () =>
     new BuiltinClosure('del-ins', ['list', 'start', 'del-count', 'new-items'], (args, location, env) => {
       let [list, st, dc, ni] = args
-      if (list instanceof List && typeof st === 'number' && typeof dc === 'number' && ni instanceof List) {
-        list.values.splice(st, dc, ...ni.values)
+      let start = asIndex(st)
+      let count = asIndex(dc)
+      if (list instanceof List && start !== undefined && count !== undefined && ni instanceof List) {
+        list.values.splice(start, count, ...ni.values)
         return new Left(list)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(list)} ${showValueType(st)} ${showValueType(dc)} ${showValueType(ni)}) for 'del-ins'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(list)} ${showValueType(st)} ${showValueType(dc)} ${showValueType(ni)}) for 'del-ins'`, location, env))
       }
     })
   ,
   'get': () =>
-    new BuiltinClosure('get', ['obj', 'attr'], (args, location, env) => {
+    new BuiltinClosure('get', ['obj', 'attr'], (args, location, env, argLocations) => {
       let [obj, attr] = args
-      if (typeof obj === 'string' && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.length) {
-          return new Right(`index out of range: ${attr} of String "${obj}"${location}${formatStackTrace('', env)}`)
+      let index = asIndex(attr)
+      // an index out of range is reported at the index
+      let indexLocation = argLocations === undefined ? location : argLocations[1]
+      if (typeof obj === 'string' && index !== undefined) {
+        if (index < 0 || index >= obj.length) {
+          return new Right(makeError('index-error', `index out of range: ${attr} of String "${obj}"`, indexLocation, env))
         }
-        return new Left(obj[attr])
-      } else if (obj instanceof List && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.values.length) {
-          return new Right(`index out of range: ${attr} of ${obj}${location}${formatStackTrace('', env)}`)
+        return new Left(obj[index])
+      } else if (obj instanceof List && index !== undefined) {
+        if (index < 0 || index >= obj.values.length) {
+          return new Right(makeError('index-error', `index out of range: ${attr} of ${obj}`, indexLocation, env))
         }
-        return new Left(obj.values[attr])
+        return new Left(obj.values[index])
       } else if (obj instanceof Dict) {
         let v = obj.data.get(attr)
         if (v === undefined) {
-          return new Right(`key error: key '${attr}' not existing on ${obj}${location}${formatStackTrace('', env)}`)
+          return new Right(makeError('key-error', `key error: key '${attr}' not existing on ${obj}`, location, env))
         }
         return new Left(v)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'get'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'get'`, location, env))
       }
     })
   ,
   'try-get': () =>
     new BuiltinClosure('try-get', ['$0', '$1'], (args, location, env) => {
       let [obj, attr] = args
-      if (typeof obj === 'string' && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.length) {
+      let index = asIndex(attr)
+      if (typeof obj === 'string' && index !== undefined) {
+        if (index < 0 || index >= obj.length) {
           return new Left(unit)
         }
-        return new Left(obj[attr])
-      } else if (obj instanceof List && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.values.length) {
+        return new Left(obj[index])
+      } else if (obj instanceof List && index !== undefined) {
+        if (index < 0 || index >= obj.values.length) {
           return new Left(unit)
         }
-        return new Left(obj.values[attr])
+        return new Left(obj.values[index])
       } else if (obj instanceof Dict) {
         let v = obj.data.get(attr)
         if (v === undefined) {
@@ -676,7 +1066,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
         }
         return new Left(v)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'try-get'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'try-get'`, location, env))
       }
     })
   ,
@@ -689,51 +1079,55 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       }
       let dict = objv.unwrapLeft()
       if (!(dict instanceof Dict)) {
-        return new Right(`unaccepted arguments types (${showValueType(obj)} <unknown>) for '.'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(obj)} <unknown>) for '.'`, location, env))
       }
 
       let s = ''
-      if (typeof attr === 'string') {
-        s = attr
+      if (attr instanceof Parser.Literal && typeof attr.value === 'string') {
+        s = attr.value
       } else if (attr instanceof Parser.Var) {
         s = attr.id
       }
 
       let v = dict.data.get(s)
       if (v === undefined) {
-        return new Right(`key error: key "${s}" not existing on ${obj}${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('key-error', `key error: key "${s}" not existing on ${obj}`, location, env))
       }
       return new Left(v)
     })
   ,
   'set': () =>
-    new BuiltinClosure('set', ['obj', 'attr', 'val'], (args, location, env) => {
+    new BuiltinClosure('set', ['obj', 'attr', 'val'], (args, location, env, argLocations) => {
       let [obj, attr, val] = args
-      if (obj instanceof List && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.values.length) {
-          return new Right(`index out of range: ${attr} of ${obj}${location}${formatStackTrace('', env)}`)
+      let index = asIndex(attr)
+      // an index out of range is reported at the index
+      let indexLocation = argLocations === undefined ? location : argLocations[1]
+      if (obj instanceof List && index !== undefined) {
+        if (index < 0 || index >= obj.values.length) {
+          return new Right(makeError('index-error', `index out of range: ${attr} of ${obj}`, indexLocation, env))
         }
-        obj.values[attr] = val
+        obj.values[index] = val
         return new Left(obj)
       } else if (obj instanceof Dict) {
         if (!obj.data.has(attr)) {
-          return new Right(`key error: key '${attr}' not existing on ${obj}${location}${formatStackTrace('', env)}`)
+          return new Right(makeError('key-error', `key error: key '${attr}' not existing on ${obj}`, location, env))
         }
         obj.data.set(attr, val)
         return new Left(obj)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'set'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'set'`, location, env))
       }
     })
   ,
   'try-set': () =>
     new BuiltinClosure('try-set', ['obj', 'attr', 'val'], (args, location, env) => {
       let [obj, attr, val] = args
-      if (obj instanceof List && typeof attr === 'number') {
-        if (attr < 0 || attr >= obj.values.length) {
+      let index = asIndex(attr)
+      if (obj instanceof List && index !== undefined) {
+        if (index < 0 || index >= obj.values.length) {
           return new Left(unit)
         }
-        obj.values[attr] = val
+        obj.values[index] = val
         return new Left(obj)
       } else if (obj instanceof Dict) {
         if (!obj.data.has(attr)) {
@@ -742,7 +1136,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
         obj.data.set(attr, val)
         return new Left(obj)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'try-set'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(obj)} ${showValueType(attr)}) for 'try-set'`, location, env))
       }
     })
   ,
@@ -750,14 +1144,9 @@ export const BUILTINS: {[keys: string]: () => Value} = {
     new BuiltinClosure('keys', ['dict'], (args, location, env) => {
       let [dict] = args
       if (dict instanceof Dict) {
-        let col: Value[] = []
-        let keyIter = dict.data.keys()
-        for (let k = keyIter.next(); !k.done; k = keyIter.next()) {
-          col.push(k.value)
-        }
-        return new Left(new List(col))
+        return new Left(new List(dict.data.keys()))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(dict)}) for 'keys'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(dict)}) for 'keys'`, location, env))
       }
     })
   ,
@@ -766,18 +1155,18 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [dict] = args
       if (dict instanceof Dict) {
         let ents: List[] = []
-        let keyIter = dict.data.keys()
-        for (let k = keyIter.next(); !k.done; k = keyIter.next()) {
-          let v = dict.data.get(k.value)
+        let keys = dict.data.keys()
+        for (let i = 0; i < keys.length; i++) {
+          let v = dict.data.get(keys[i])
           if (v !== undefined) {
-            ents.push(new List([k.value, v]))
+            ents.push(new List([keys[i], v]))
           } else {
             throw new Error('not possible')
           }
         }
         return new Left(new List(ents))
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(dict)}) for 'entries'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(dict)}) for 'entries'`, location, env))
       }
     })
   ,
@@ -788,7 +1177,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
         list.values.push(val)
         return new Left(list)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(list)} ${showValueType(val)}) for 'push'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(list)} ${showValueType(val)}) for 'push'`, location, env))
       }
     })
   ,
@@ -797,7 +1186,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [list] = args
       if (list instanceof List) {
         if (list.values.length <= 0) {
-          return new Right(`popping from empty list${location}${formatStackTrace('', env)}`)
+          return new Right(makeError('index-error', `popping from empty list`, location, env))
         }
         let val = list.values.pop()
         if (val !== undefined) {
@@ -806,7 +1195,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
           throw new Error('not possible')
         }
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(list)}) for 'pop'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(list)}) for 'pop'`, location, env))
       }
     })
   ,
@@ -817,7 +1206,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
         list.values.unshift(val)
         return new Left(list)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(list)} ${showValueType(val)}) for 'push-front'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(list)} ${showValueType(val)}) for 'push-front'`, location, env))
       }
     })
   ,
@@ -826,7 +1215,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       let [list] = args
       if (list instanceof List) {
         if (list.values.length <= 0) {
-          return new Right(`popping from empty list${location}${formatStackTrace('', env)}`)
+          return new Right(makeError('index-error', `popping from empty list`, location, env))
         }
         let val = list.values.pop()
         if (val !== undefined) {
@@ -835,7 +1224,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
           throw new Error('not possible')
         }
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(list)}) for 'pop-front'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(list)}) for 'pop-front'`, location, env))
       }
     })
   ,
@@ -863,9 +1252,9 @@ export const BUILTINS: {[keys: string]: () => Value} = {
     new BuiltinClosure('type-is', ['x', 'T'], (args, location, env) => {
       let [x, t] = args
       if (typeof t === 'string') {
-        return new Left(showValueType(x) === t)
+        return new Left(showValueType(x) === t ? boolTrue : boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(t)}) for 'type-is'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(t)}) for 'type-is'`, location, env))
       }
     })
   ,
@@ -873,58 +1262,52 @@ export const BUILTINS: {[keys: string]: () => Value} = {
   'and': () =>
     new BuiltinClosure('and', ['x', 'y'], undefined, (argEnv, args, location, env) => {
       let [xe, ye] = args
-      let x = evaluate(argEnv, xe)
-      if (!x.isLeft()) {
-        return x
+      let xv = evaluate(argEnv, xe)
+      if (!xv.isLeft()) {
+        return xv
       }
-      if (!isBool(x)) {
-        return new Right(`unaccepted arguments types (${showValueType(x)} <unknown>) for 'and'${location}${formatStackTrace('', env)}`)
+      let x = xv.unwrapLeft()
+      if (!(x instanceof Bool)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(x)} <unknown>) for 'and'`, location, env))
       }
       if (x === boolFalse) {
         return new Left(boolFalse)
-      } else {
-        let y = evaluate(argEnv, ye)
-        if (!y.isLeft()) {
-          return y
-        }
-        if (!isBool(y)) {
-          return new Right(`unaccepted arguments types (${showValueType(x)} ${showValueType(y)}) for 'and'${location}${formatStackTrace('', env)}`)
-        }
-        if (x === boolFalse) {
-          return new Left(boolFalse)
-        } else {
-          return new Left(boolTrue)
-        }
       }
+      let yv = evaluate(argEnv, ye)
+      if (!yv.isLeft()) {
+        return yv
+      }
+      let y = yv.unwrapLeft()
+      if (!(y instanceof Bool)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(x)} ${showValueType(y)}) for 'and'`, location, env))
+      }
+      return new Left(y)
     })
   ,
   // short-cut
   'or': () =>
     new BuiltinClosure('or', ['x', 'y'], undefined, (argEnv, args, location, env) => {
       let [xe, ye] = args
-      let x = evaluate(argEnv, xe)
-      if (!x.isLeft()) {
-        return x
+      let xv = evaluate(argEnv, xe)
+      if (!xv.isLeft()) {
+        return xv
       }
-      if (!isBool(x)) {
-        return new Right(`unaccepted arguments types (${showValueType(x)} <unknown>) for 'or'${location}${formatStackTrace('', env)}`)
+      let x = xv.unwrapLeft()
+      if (!(x instanceof Bool)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(x)} <unknown>) for 'or'`, location, env))
       }
       if (x === boolTrue) {
         return new Left(boolTrue)
-      } else {
-        let y = evaluate(argEnv, ye)
-        if (!y.isLeft()) {
-          return y
-        }
-        if (!isBool(y)) {
-          return new Right(`unaccepted arguments types (${showValueType(x)} ${showValueType(y)}) for 'or'${location}${formatStackTrace('', env)}`)
-        }
-        if (x === boolFalse) {
-          return new Left(boolFalse)
-        } else {
-          return new Left(boolTrue)
-        }
       }
+      let yv = evaluate(argEnv, ye)
+      if (!yv.isLeft()) {
+        return yv
+      }
+      let y = yv.unwrapLeft()
+      if (!(y instanceof Bool)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(x)} ${showValueType(y)}) for 'or'`, location, env))
+      }
+      return new Left(y)
     })
   ,
   'not': () =>
@@ -935,25 +1318,72 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       } else if (x === boolTrue) {
         return new Left(boolFalse)
       } else {
-        return new Right(`unaccepted arguments types (${showValueType(x)}) for 'not'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(x)}) for 'not'`, location, env))
+      }
+    })
+  ,
+  'error': () =>
+    new BuiltinClosure('error', ['message'], (args, location, env) => {
+      let [message] = args
+      if (typeof message !== 'string') {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(message)}) for 'error'`, location, env))
+      }
+      return new Right(makeError('error', message, location, env))
+    })
+  ,
+  'raise': () =>
+    new BuiltinClosure('raise', ['kind', 'message'], (args, location, env) => {
+      let [kind, message] = args
+      if (typeof kind !== 'string' || typeof message !== 'string') {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(kind)} ${showValueType(message)}) for 'raise'`, location, env))
       }
+      if (UNCATCHABLE_KINDS.indexOf(kind) >= 0) {
+        // these kinds stop the evaluation, which only the evaluator itself does
+        return new Right(makeError('type-error', `cannot raise an error of kind '${kind}'`, location, env))
+      }
+      return new Right(makeError(kind, message, location, env))
+    })
+  ,
+  'error-kind': () =>
+    new BuiltinClosure('error-kind', ['err'], (args, location, env) => {
+      let [err] = args
+      if (!(err instanceof RispError)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(err)}) for 'error-kind'`, location, env))
+      }
+      return new Left(err.kind)
+    })
+  ,
+  'error-message': () =>
+    new BuiltinClosure('error-message', ['err'], (args, location, env) => {
+      let [err] = args
+      if (!(err instanceof RispError)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(err)}) for 'error-message'`, location, env))
+      }
+      return new Left(err.message)
     })
   ,
   'eval': () =>
     new BuiltinClosure('eval', ['src'], (args, location, env) => {
       let [src] = args
-      if (typeof src !== 'string') {
-        return new Right(`expected argument type (String) for 'eval'${location}${formatStackTrace('', env)}`)
-      }
-      // if (env === undefined) {
-      //   throw new Error('empty env on BuiltinClosure call')
-      // }
-
-      let parseResult = new Parser.Parser('(eval)', src).parse()
-      if (!parseResult.isLeft()) {
-        return new Right(parseResult.unwrapRight())
+      let exprs: Parser.Expr[]
+      if (src instanceof Code) {
+        try {
+          exprs = [Parser.expandMacros(src.expr)]
+        } catch (e) {
+          if (e instanceof SyntaxError) {
+            return new Right(inBuiltin(fromSyntaxError(e), 'eval', location, env))
+          }
+          throw e
+        }
+      } else if (typeof src === 'string') {
+        let parseResult = new Parser.Parser('(eval)', src, macroScopeOf(env).child()).parse()
+        if (!parseResult.isLeft()) {
+          return new Right(inBuiltin(fromSyntaxError(parseResult.unwrapRight()), 'eval', location, env))
+        }
+        exprs = parseResult.unwrapLeft()
+      } else {
+        return new Right(makeError('type-error', `expected argument type (String) or (Code) for 'eval'`, location, env))
       }
-      let exprs = parseResult.unwrapLeft()
 
       let vals: Value[] = []
       for (let i in exprs) {
@@ -971,16 +1401,103 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       return new Left(vals[vals.length - 1])
     })
   ,
+  'macroexpand-1': () =>
+    new BuiltinClosure('macroexpand-1', ['src'], (args, location, env) => {
+      let [src] = args
+      if (typeof src !== 'string') {
+        return new Right(makeError('type-error', `expected argument type (String) for 'macroexpand-1'`, location, env))
+      }
+
+      return macroExpansionSteps(src, macroScopeOf(env).child()).handle<Either<Value, RispError>>(
+        steps => new Left(steps[Math.min(1, steps.length - 1)]),
+        err => new Right(inBuiltin(err, 'macroexpand-1', location, env))
+      )
+    })
+  ,
+  'macroexpand': () =>
+    new BuiltinClosure('macroexpand', ['src'], (args, location, env) => {
+      let [src] = args
+      if (typeof src !== 'string') {
+        return new Right(makeError('type-error', `expected argument type (String) for 'macroexpand'`, location, env))
+      }
+
+      return macroExpansionSteps(src, macroScopeOf(env).child()).handle<Either<Value, RispError>>(
+        steps => new Left(steps[steps.length - 1]),
+        err => new Right(inBuiltin(err, 'macroexpand', location, env))
+      )
+    })
+  ,
+  'code-kind': () =>
+    new BuiltinClosure('code-kind', ['code'], (args, location, env) => {
+      let [code] = args
+      if (!(code instanceof Code)) {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(code)}) for 'code-kind'`, location, env))
+      }
+
+      let e = code.expr
+      return new Left(
+        e instanceof Parser.Literal ? (typeof e.value === 'number' ? 'number' : typeof e.value === 'bigint' ? 'integer' : 'string') :
+        e instanceof Parser.Var ? 'identifier' :
+        e instanceof Parser.SExpr ? (e.isUnit ? 'unit' : 'call') :
+        e instanceof Parser.MacroCall ? 'macro-call' :
+        e instanceof Parser.ListExpr ? 'list' :
+        e instanceof Parser.DictExpr ? 'dict' :
+        e instanceof Parser.ExprLetVar || e instanceof Parser.ExprLetFunc ? 'let' :
+        e instanceof Parser.ExprLambda ? 'lambda' :
+        e instanceof Parser.ExprDo ? 'do' :
+        e instanceof Parser.ExprExec ? 'exec' :
+        e instanceof Parser.ExprIf ? 'if' :
+        e instanceof Parser.ExprCond ? 'cond' :
+        e instanceof Parser.ExprWhen ? (e.negated ? 'unless' : 'when') :
+        e instanceof Parser.ExprCase ? 'case' :
+        e instanceof Parser.ExprMatch ? 'match' :
+        e instanceof Parser.ExprTry ? 'try' :
+        e instanceof Parser.Quasiquote ? 'quasiquote' :
+          'macro'
+      )
+    })
+  ,
+  'code-items': () =>
+    new BuiltinClosure('code-items', ['code'], (args, location, env) => {
+      let [code] = args
+      let e = code instanceof Code ? code.expr : undefined
+      let items: Parser.Expr[]
+      if (e instanceof Parser.SExpr) {
+        items = e.caller === undefined ? [] : [e.caller].concat(e.args)
+      } else if (e instanceof Parser.MacroCall) {
+        items = e.items
+      } else if (e instanceof Parser.ListExpr) {
+        items = e.items
+      } else if (e instanceof Parser.ExprDo || e instanceof Parser.ExprExec) {
+        items = e.exprs
+      } else if (e instanceof Parser.DictExpr) {
+        return new Left(new List(e.entries.map(entry => new List([new Code(entry.key), new Code(entry.value)]))))
+      } else {
+        let type = code instanceof Code ? `Code of ${code}` : showValueType(code)
+        return new Right(makeError('type-error', `unaccepted arguments types (${type}) for 'code-items'`, location, env))
+      }
+      return new Left(new List(items.map(item => new Code(item))))
+    })
+  ,
+  'gensym': () =>
+    new BuiltinClosure('gensym', ['prefix'], (args, location, env) => {
+      let [prefix] = args
+      if (typeof prefix !== 'string') {
+        return new Right(makeError('type-error', `unaccepted arguments types (${showValueType(prefix)}) for 'gensym'`, location, env))
+      }
+      return new Left(new Code(new Parser.Var(Parser.gensym(prefix), location)))
+    })
+  ,
   '$': () =>
     new BuiltinClosure('$', ['relpath'], undefined, (argEnv, args, location, env) => {
       let [relpath] = args
       let pathStr = ''
-      if (typeof relpath === 'string') {
-        pathStr = relpath
+      if (relpath instanceof Parser.Literal && typeof relpath.value === 'string') {
+        pathStr = relpath.value
       } else if (relpath instanceof Parser.Var) {
         pathStr = relpath.id
       } else {
-        return new Right(`expected a string or identifier for '$'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `expected a string or identifier for '$'`, location, env))
       }
 
       let file = new FileHandler(pathStr)
@@ -996,12 +1513,12 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       } else if (file instanceof FileHandler) {
         hdl = file
       } else {
-        return new Right(`expected a path or a FileHandler for 'read'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `expected a path or a FileHandler for 'read'`, location, env))
       }
 
       let content = hdl.read()
       if (content === undefined) {
-        return new Left(unit)
+        return new Right(makeError('io-error', `cannot read ${hdl.abspath}: ${hdl.readError}`, location, env))
       } else {
         return new Left(content)
       }
@@ -1016,15 +1533,10 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       } else if (file instanceof FileHandler) {
         hdl = file
       } else {
-        return new Right(`expected a path or a FileHandler for 'read'${location}${formatStackTrace('', env)}`)
+        return new Right(makeError('type-error', `expected a path or a FileHandler for 'read'`, location, env))
       }
 
-      let mod = hdl.import()
-      if (mod === undefined) {
-        return new Left(unit)
-      } else {
-        return new Left(mod)
-      }
+      return hdl.import(location, env)
     })
   ,
   '__stack__': () =>
@@ -1032,7 +1544,7 @@ export const BUILTINS: {[keys: string]: () => Value} = {
       if (env === undefined) {
         return new Left(unit)
       } else {
-        return new Left(formatStackTrace('', env))
+        return new Left(formatTrace(stackOf(env)))
       }
     })
   ,
@@ -1040,18 +1552,31 @@ export const BUILTINS: {[keys: string]: () => Value} = {
 
 class Env {
   name: string
-  entryLocation?: string
+  /** where the frame is entered, e.g. the call of the function */
+  entryLocation?: Span
   context: Map<string, Value>
+  /** the enclosing frame in scope */
   next: Env | undefined
-
-  constructor(name?: string, entryLocation?: string, next?: Env) {
+  /** the frame the call is made in, which follows this frame in traces */
+  caller: Env | undefined
+  /** the argument values of the call */
+  args?: Value[]
+  /** whether variables not known at compile time are defined in this frame, e.g. by `eval` */
+  extended: boolean = false
+  /** the macros defined in this frame, whose bodies resolve their free identifiers here */
+  macros?: Parser.Macro[]
+  /** for the outermost frame of a source, the macros visible in the source */
+  macroScope?: Parser.MacroScope
+
+  constructor(name?: string, entryLocation?: Span, next?: Env, caller: Env | undefined = next) {
     this.name = name === undefined || name === '' ? '(anonymous)' : name
     this.entryLocation = entryLocation
     this.context = new Map()
     this.next = next
+    this.caller = caller
   }
 
-  pushed(name?: string, entryLocation?: string): Env {
+  pushed(name?: string, entryLocation?: Span): Env {
     return new Env(name, entryLocation, this)
   }
 
@@ -1073,6 +1598,22 @@ class Env {
     }
   }
 
+  /**
+   * Looks up a variable resolved at compile time to the frame `depth` frames outward, or by name if the frames on the
+   * way are extended or the variable is not defined yet.
+   */
+  lookupAt(depth: number, id: string): Value | undefined {
+    let env: Env = this
+    for (let i = 0; i < depth; i++) {
+      if (env.extended || env.next === undefined) {
+        return this.lookup(id)
+      }
+      env = env.next
+    }
+    let val = env.context.get(id)
+    return val === undefined ? this.lookup(id) : val
+  }
+
   lookup(id: string): Value | undefined {
     let env: Env | undefined = this
     while (env !== undefined) {
@@ -1087,74 +1628,462 @@ class Env {
   }
 }
 
-function loadPrelude(env: Env) {
-  let libpath = process.env['RISP_LIB']
-  if (libpath === undefined) {
-    console.error('fatal error: environment variable \'RISP_LIB\' is not defined; prelude is not imported')
-    return
+/**
+ * An expression compiled to run in an environment. Instead of making a call itself, it may return the call as a
+ * `TailCall` for `run` to make.
+ */
+interface Compiled {
+  (env: Env): Either<Value, RispError> | TailCall
+  /** where the expression is, to report the evaluation limits at */
+  location?: Span
+}
+
+/** A call left to `run`, so that calls in tail position do not nest on the JS stack. */
+class TailCall {
+  env: Env
+  code: Compiled
+
+  constructor(env: Env, code: Compiled) {
+    this.env = env
+    this.code = code
+  }
+}
+
+/**
+ * The names of a frame of environment known at compile time, which are the parameters and the variables defined by
+ * `let`. Frames outside the outermost scope are not known, e.g. at the top level.
+ */
+class Scope {
+  names: string[]
+  parent?: Scope
+
+  constructor(names: string[], parent?: Scope) {
+    this.names = names
+    this.parent = parent
   }
 
-  let source = ''
-  try {
-    source = fs.readFileSync(path.join(libpath, 'prelude.risp')).toString()
-  } catch (e) {
-    console.error('fatal error: prelude file is not found or cannot be read; prelude is not imported')
-    return
+  declare(id: string) {
+    if (this.names.indexOf(id) < 0) {
+      this.names.push(id)
+    }
   }
 
-  const parser = new Parser.Parser('__prelude__', source)
-  let ast = parser.parse()
-  if (ast.isLeft()) {
-    let exprs = ast.unwrapLeft()
-    for (let i = 0; i < exprs.length; i++) {
-      let val = evaluate(env, exprs[i])
-      if (!val.isLeft()) {
-        throw new Error('evaluation of prelude failed: ' + ast.unwrapRight())
+  /**
+   * Gets how many frames outward the variable is, or `undefined` if it is not in any known frame.
+   */
+  resolve(id: string): number | undefined {
+    let depth = 0
+    for (let scope: Scope | undefined = this; scope !== undefined; scope = scope.parent) {
+      if (scope.names.indexOf(id) >= 0) {
+        return depth
       }
+      depth++
     }
-  } else {
-    throw new Error('parse of prelude failed: ' + ast.unwrapRight())
+    return undefined
   }
 }
 
-var /*DO NOT MODIFY*/ INITIAL_ENV = makeInitialEnv()
+function located(code: Compiled, location?: Span): Compiled {
+  code.location = location
+  return code
+}
 
-function makeInitialEnv(): Env {
-  let env = new Env('__main__')
+/** the environments where the macros are last defined, for their uses outside those, e.g. where they are imported */
+const macroEnvs: WeakMap<Parser.Macro, Env> = new WeakMap()
+
+/**
+ * Finds the frame where the macro is defined, which is the innermost enclosing frame that evaluated its definition if
+ * any, or else the frame that evaluated it last.
+ */
+function macroEnvOf(env: Env, macro: Parser.Macro): Env | undefined {
+  for (let e: Env | undefined = env; e !== undefined; e = e.next) {
+    if (e.macros !== undefined && e.macros.indexOf(macro) >= 0) {
+      return e
+    }
+  }
+  return macroEnvs.get(macro)
+}
 
-  for (let id in BUILTINS) {
-    env.set(id, BUILTINS[id]())
+/** the functions of the procedural macros */
+const procMacroFuncs: WeakMap<Parser.ProcMacro, Closure> = new WeakMap()
+/**
+ * where the functions of the procedural macros of each source are defined, since they are evaluated at parse time,
+ * with how many of the top-level functions of the source are defined there
+ */
+const procMacroEnvs: WeakMap<Parser.MacroScope, { env: Env, defined: number }> = new WeakMap()
+
+/**
+ * Gets the environment for the procedural macros of the source, and defines there the top-level functions of the
+ * source parsed since the last call.
+ */
+function procMacroEnvOf(scope: Parser.MacroScope): Env {
+  let entry = procMacroEnvs.get(scope)
+  if (entry === undefined) {
+    let env = makeInitialEnv()
+    env.macroScope = scope
+    entry = { env, defined: 0 }
+    procMacroEnvs.set(scope, entry)
+  }
+  for (; entry.defined < scope.functions.length; entry.defined++) {
+    evaluate(entry.env, scope.functions[entry.defined])
   }
+  return entry.env
+}
 
-  loadPrelude(env)
+function expandProcMacro(macro: Parser.ProcMacro, args: Parser.Expr[], location: Span): Parser.Expr {
+  let env = procMacroEnvOf(macro.scope)
+  let func = procMacroFuncs.get(macro)
+  if (func === undefined) {
+    let params = macro.params.filter(p => p !== '&')
+    let code = compileFunction(params, macro.body, undefined)
+    func = new Closure(new ClosureMeta(macro.name, macro.location), env, params, macro.body, code)
+    procMacroFuncs.set(macro, func)
+  }
 
-  return env
-}
+  let vals: Value[] = args.map(arg => new Code(arg))
+  if (macro.params.indexOf('&') >= 0) {
+    let fixed = macro.params.length - 2
+    if (vals.length < fixed) {
+      throw new SyntaxError(`number of arguments: macro '${macro.name}' defined${macro.location}: expected at least ${fixed}, got ${vals.length}`, location)
+    }
+    vals = vals.slice(0, fixed).concat([new List(vals.slice(fixed))])
+  }
 
-function formatStackTrace(errMsg: string, stack?: Env): string {
-  if (stack === undefined) return errMsg
+  let result = func.apply(vals, location, func.env)
+  if (!result.isLeft()) {
+    let error = result.unwrapRight()
+    throw new SyntaxError(`in expansion of macro '${macro.name}': ${error.message}`, error.span === undefined ? location : error.span)
+  }
 
-  let env: Env | undefined = stack
-  errMsg += '\nTrace\n'
-  while (env !== undefined) {
-    errMsg += `  ${env.name}` + (env.entryLocation === undefined ? '' : env.entryLocation) + '\n'
-    // let context = env.context
-    // let keys = context.keys()
-    // for (let id = keys.next(); !id.done; id = keys.next()) {
-    //   errMsg += `    ${id.value}: ${context.get(id.value)}\n`
-    // }
-    env = env.next
+  let expr = valueToExpr(result.unwrapLeft(), location)
+  if (expr === undefined) {
+    throw new SyntaxError(`macro '${macro.name}' resulted in ${showValueType(result.unwrapLeft())}, which is not code`, location)
   }
-  return errMsg
+  return expr
 }
 
-export function execute(filepath: string, source: string): Either<Value[], string> {
-  const parser = new Parser.Parser(filepath, source)
-  let ast = parser.parse()
-  return ast.handle<Either<Value[], string>>(
-    exprs => {
-      let env = makeInitialEnv()
-      let vals: Value[] = []
+/** Limits of an evaluation, beyond which it fails with a `limit-error`, and how to stop it early. */
+export interface EvalOptions {
+  /** the most nested evaluations, which are mostly calls not in tail position; `DEFAULT_MAX_DEPTH` if not given */
+  maxDepth?: number
+  /** the most evaluation steps in total; unlimited if not given */
+  maxSteps?: number
+  /**
+   * the milliseconds the evaluation may take, after which it fails with a `timeout-error`, and the child processes
+   * still running are killed
+   */
+  timeout?: number
+  /**
+   * cancels the evaluation with a `cancel-error` when aborted. `execute` and `interpret` are synchronous, so they only
+   * see the signal aborted before they start or by the code they call, e.g. a builtin added by the host. The evaluation
+   * by `executeAsync` can be cancelled at any time, which also kills the child process it is running.
+   */
+  signal?: AbortSignal
+}
+
+/** a depth deep enough for most recursions, and shallow enough to stay within the default JS stack size */
+export const DEFAULT_MAX_DEPTH = 1000
+
+/** how many evaluation steps are taken between checks of the timeout and the signal */
+const INTERRUPT_CHECK_INTERVAL = 1024
+
+/** The limits of the running evaluation, and how much of them is used. */
+class Budget {
+  maxDepth: number
+  maxSteps: number
+  timeout?: number
+  /** when the evaluation times out, in milliseconds since the epoch */
+  deadline: number
+  signal?: AbortSignal
+  /** set to 1 at `CANCELLED` when the evaluation by `executeAsync` is cancelled */
+  flags?: Int32Array
+  depth: number = 0
+  steps: number = 0
+
+  constructor(options: EvalOptions, flags?: Int32Array) {
+    this.maxDepth = options.maxDepth === undefined ? DEFAULT_MAX_DEPTH : options.maxDepth
+    this.maxSteps = options.maxSteps === undefined ? Infinity : options.maxSteps
+    this.timeout = options.timeout
+    this.deadline = options.timeout === undefined ? Infinity : Date.now() + options.timeout
+    this.signal = options.signal
+    this.flags = flags
+  }
+
+  /**
+   * Checks whether the evaluation is cancelled or timed out.
+   * @returns the error to stop the evaluation with, or `undefined` if it goes on
+   */
+  interruption(location?: Span, env?: Env): RispError | undefined {
+    let cancelled = this.flags !== undefined && Atomics.load(this.flags, CANCELLED) === 1
+    if (cancelled || this.signal !== undefined && this.signal.aborted) {
+      return makeError('cancel-error', `evaluation cancelled`, location, env)
+    } else if (Date.now() >= this.deadline) {
+      return makeError('timeout-error', `evaluation timed out after ${this.timeout} ms`, location, env)
+    }
+    return undefined
+  }
+
+  /**
+   * Runs the command in a child process, which is killed when the evaluation times out, or is cancelled when it is
+   * evaluated by `executeAsync`.
+   * @returns the output of the command
+   * @throws {Error} if the command fails
+   */
+  exec(cmd: string): string {
+    let timeout = this.deadline === Infinity ? undefined : Math.max(1, this.deadline - Date.now())
+    if (execHost === undefined) {
+      // the command gets a process group of its own like in `runCommand`, which `spawnSync` supports but not its types
+      let options: proc.SpawnSyncOptions & { detached: boolean } = {
+        shell: true, detached: true, timeout, stdio: ['pipe', 'pipe', 'inherit']
+      }
+      let result = proc.spawnSync(cmd, options)
+      if (result.error !== undefined) {
+        // the timeout kills the shell, but not the processes it starts
+        killCommand(result.pid)
+        throw result.error
+      } else if (result.status !== 0) {
+        throw new Error(`Command failed: ${cmd}`)
+      }
+      return result.stdout.toString()
+    }
+
+    // the thread that started the evaluation runs the command, since it can kill it while this one waits
+    Atomics.store(execHost.flags, REPLIED, 0)
+    execHost.requests.postMessage({ exec: cmd, timeout })
+    Atomics.wait(execHost.flags, REPLIED, 0)
+    let reply = receiveMessageOnPort(execHost.replies)
+    if (reply === undefined) {
+      throw new Error('no reply to the command')
+    }
+    let result: ExecResult = reply.message
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+    return result.output
+  }
+}
+
+let budget = new Budget({})
+
+/** How the evaluation in a worker thread started by `executeAsync` has its commands run. */
+interface ExecHost {
+  /** where the commands are sent to the thread that started the evaluation */
+  requests: MessagePort
+  /** where the results of the commands are received */
+  replies: MessagePort
+  /** set by the thread that started the evaluation, at `CANCELLED` and `REPLIED` */
+  flags: Int32Array
+}
+
+/** the flag set when the evaluation is cancelled */
+const CANCELLED = 0
+/** the flag set when the result of a command is sent */
+const REPLIED = 1
+
+/** how the commands are run, if this is the worker thread of an `executeAsync` */
+let execHost: ExecHost | undefined
+
+/** what `executeAsync` gives the worker thread it starts */
+interface WorkerTask {
+  filepath: string
+  source: string
+  options: EvalOptions
+  replies: MessagePort
+  flags: Int32Array
+}
+
+type ExecResult = { output: string } | { error: string }
+
+/** the messages from the worker thread of `executeAsync`, which are the output, the commands and the result */
+type WorkerMessage =
+  { output: string } |
+  { exec: string, timeout?: number } |
+  { values: string[] } |
+  { error: RispError }
+
+/** the expressions compiled by `evaluate`, which are evaluated in environments not known at compile time */
+const dynamicCodes: WeakMap<object, Compiled> = new WeakMap()
+
+/** the macros of the prelude, visible to every source file */
+const preludeMacros = new Parser.MacroScope(undefined, expandProcMacro)
+
+/**
+ * Finds the macros visible in the source the environment is in, e.g. for `eval` to see the macros of its caller.
+ */
+function macroScopeOf(env: Env | undefined): Parser.MacroScope {
+  for (let e = env; e !== undefined; e = e.next) {
+    if (e.macroScope !== undefined) {
+      return e.macroScope
+    }
+  }
+  return preludeMacros
+}
+/** the parsed prelude, which is loaded into every initial environment */
+let preludeExprs: Parser.Expr[] | undefined
+
+function loadPrelude(env: Env) {
+  if (preludeExprs === undefined) {
+    let libpath = process.env['RISP_LIB']
+    if (libpath === undefined) {
+      console.error('fatal error: environment variable \'RISP_LIB\' is not defined; prelude is not imported')
+      return
+    }
+
+    let source = ''
+    try {
+      source = fs.readFileSync(path.join(libpath, 'prelude.risp')).toString()
+    } catch (e) {
+      console.error('fatal error: prelude file is not found or cannot be read; prelude is not imported')
+      return
+    }
+
+    const parser = new Parser.Parser('__prelude__', source, preludeMacros)
+    let ast = parser.parse()
+    if (ast.isLeft()) {
+      preludeExprs = ast.unwrapLeft()
+    } else {
+      throw new Error('parse of prelude failed: ' + ast.unwrapRight())
+    }
+  }
+
+  for (let i = 0; i < preludeExprs.length; i++) {
+    let val = evaluate(env, preludeExprs[i])
+    if (!val.isLeft()) {
+      throw new Error('evaluation of prelude failed: ' + val.unwrapRight())
+    }
+  }
+}
+
+var /*DO NOT MODIFY*/ INITIAL_ENV = makeInitialEnv()
+
+function makeInitialEnv(): Env {
+  let env = new Env('__main__')
+
+  for (let id in BUILTINS) {
+    env.set(id, BUILTINS[id]())
+  }
+
+  // the prelude is not counted against the budget of the source that imports it
+  let outer = budget
+  budget = new Budget({})
+  loadPrelude(env)
+  budget = outer
+
+  return env
+}
+
+/**
+ * the kinds of errors, by which they can be told apart without reading the messages; errors raised by `raise` may
+ * have other kinds, but not those in `UNCATCHABLE_KINDS`
+ */
+export type ErrorKind =
+  'syntax-error' | 'type-error' | 'value-error' | 'arity-error' | 'key-error' | 'index-error' | 'undefined-variable' |
+  'io-error' | 'process-error' | 'match-error' | 'limit-error' | 'timeout-error' | 'cancel-error' | 'error'
+
+/** the kinds of errors that stop the evaluation, which `try` does not catch */
+const UNCATCHABLE_KINDS: string[] = ['limit-error', 'timeout-error', 'cancel-error']
+
+/** A call in the stack, which is the entry into an environment. */
+export class StackFrame {
+  name: string
+  location?: Span
+  /** the argument values, if it is a call of a function */
+  args?: Value[]
+
+  constructor(name: string, location?: Span, args?: Value[]) {
+    this.name = name
+    this.location = location
+    this.args = args
+  }
+}
+
+/**
+ * An error in parsing or evaluation.
+ */
+export class RispError {
+  kind: ErrorKind | string
+  message: string
+  /** where the error happens */
+  span?: Span
+  /** the calls the error happens in, innermost first */
+  stack: StackFrame[]
+
+  constructor(kind: ErrorKind | string, message: string, span?: Span, stack: StackFrame[] = []) {
+    this.kind = kind
+    this.message = message
+    this.span = span
+    this.stack = stack
+  }
+
+  /**
+   * Formats the error with its location, an excerpt of the source and the trace.
+   */
+  toString(): string {
+    let s = this.kind === 'syntax-error' ? `syntax error: ${this.message}` : this.message
+    if (this.span !== undefined) {
+      s += `${this.span}${renderExcerpt(this.span)}`
+    }
+    return s + formatTrace(this.stack)
+  }
+}
+
+function makeError(kind: ErrorKind | string, message: string, location?: Span, env?: Env): RispError {
+  return new RispError(kind, message, location, env === undefined ? [] : stackOf(env))
+}
+
+function fromSyntaxError(e: SyntaxError): RispError {
+  return new RispError('syntax-error', e.message, e.span)
+}
+
+/**
+ * Reports an error in the code given to a builtin, e.g. `eval`, as happening in the call of the builtin.
+ */
+function inBuiltin(error: RispError, id: string, location: Span, env?: Env): RispError {
+  let stack = [new StackFrame(id, location)].concat(env === undefined ? [] : stackOf(env))
+  return new RispError(error.kind, error.message, error.span, stack)
+}
+
+function stackOf(env: Env): StackFrame[] {
+  let stack: StackFrame[] = []
+  for (let e: Env | undefined = env; e !== undefined; e = e.caller) {
+    stack.push(new StackFrame(e.name, e.entryLocation, e.args))
+  }
+  return stack
+}
+
+function formatTrace(stack: StackFrame[]): string {
+  if (stack.length === 0) return ''
+
+  let s = '\nTrace\n'
+  for (let i = 0; i < stack.length; i++) {
+    let frame = stack[i]
+    s += `  ${showCall(frame)}` + (frame.location === undefined ? '' : frame.location) + '\n'
+  }
+  return s
+}
+
+function showCall(frame: StackFrame): string {
+  // long argument values are cut short to keep one line per frame
+  const showArg = (v: Value) => {
+    let r = reprValue(v)
+    return r.length > 40 ? `${r.slice(0, 37)}...` : r
+  }
+  return frame.args === undefined ? frame.name : `(${[frame.name].concat(frame.args.map(showArg)).join(' ')})`
+}
+
+export function execute(filepath: string, source: string, options: EvalOptions = {}): Either<Value[], RispError> {
+  return executeWithin(filepath, source, new Budget(options))
+}
+
+function executeWithin(filepath: string, source: string, limits: Budget): Either<Value[], RispError> {
+  budget = limits
+  const parser = new Parser.Parser(filepath, source, preludeMacros.child())
+  let ast = parser.parse()
+  return ast.handle<Either<Value[], RispError>>(
+    exprs => {
+      let env = makeInitialEnv()
+      env.macroScope = parser.macros
+      let vals: Value[] = []
       for (let i = 0; i < exprs.length; i++) {
         let val = evaluate(env, exprs[i])
         if (val.isLeft()) {
@@ -1166,16 +2095,188 @@ export function execute(filepath: string, source: string): Either<Value[], strin
       }
       return new Left(vals)
     },
-    err => new Right(err)
+    err => new Right(fromSyntaxError(err))
   )
 }
 
+/**
+ * Executes the source like `execute`, but in a worker thread, so that the evaluation can be cancelled by the signal
+ * while it runs, which also kills the command it is running. The values are shown as strings, and the calls in the
+ * trace of the error keep the arguments as they are shown, since the values cannot leave the worker thread.
+ */
+export function executeAsync(filepath: string, source: string, options: EvalOptions = {}): Promise<Either<string[], RispError>> {
+  const { signal, ...limits } = options
+  const flags = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT))
+  const { port1: replies, port2 } = new MessageChannel()
+  const task: WorkerTask = { filepath, source, options: limits, replies: port2, flags }
+  const worker = new Worker(__filename, { workerData: { executeAsync: task }, transferList: [port2] })
+
+  let child: proc.ChildProcess | undefined
+  const cancel = () => {
+    Atomics.store(flags, CANCELLED, 1)
+    if (child !== undefined) {
+      killCommand(child.pid)
+    }
+  }
+  if (signal !== undefined) {
+    if (signal.aborted) {
+      cancel()
+    }
+    signal.addEventListener('abort', cancel)
+  }
+
+  const reply = (result: ExecResult) => {
+    child = undefined
+    replies.postMessage(result)
+    Atomics.store(flags, REPLIED, 1)
+    Atomics.notify(flags, REPLIED)
+  }
+
+  return new Promise<Either<string[], RispError>>((resolve, reject) => {
+    const finish = () => {
+      if (signal !== undefined) {
+        signal.removeEventListener('abort', cancel)
+      }
+      replies.close()
+    }
+    worker.on('message', (message: WorkerMessage) => {
+      if ('output' in message) {
+        process.stdout.write(message.output)
+      } else if ('exec' in message) {
+        child = runCommand(message.exec, message.timeout, reply)
+        if (Atomics.load(flags, CANCELLED) === 1) {
+          killCommand(child.pid)
+        }
+      } else if ('values' in message) {
+        finish()
+        resolve(new Left(message.values))
+      } else {
+        finish()
+        resolve(new Right(reviveError(message.error)))
+      }
+    })
+    worker.on('error', err => {
+      finish()
+      reject(err)
+    })
+    // e.g. by `process.exit` in a builtin added by the host; nothing is done if the result is already given
+    worker.on('exit', () => {
+      finish()
+      reject(new Error('the worker thread exited without the result of the evaluation'))
+    })
+  })
+}
+
+/**
+ * Runs the command in a process group of its own, so that the processes it starts are killed with it.
+ * @param timeout the milliseconds after which the command is killed
+ * @param done called with the output of the command, or why it fails
+ */
+function runCommand(cmd: string, timeout: number | undefined, done: (result: ExecResult) => void): proc.ChildProcess {
+  const child = proc.spawn(cmd, { shell: true, detached: true, stdio: ['ignore', 'pipe', 'inherit'] })
+  const timer = timeout === undefined ? undefined : setTimeout(() => killCommand(child.pid), timeout)
+  let output = ''
+  let finished = false
+  // a command that cannot be started may be reported both as an error and as closed
+  const finish = (result: ExecResult) => {
+    if (!finished) {
+      finished = true
+      if (timer !== undefined) {
+        clearTimeout(timer)
+      }
+      done(result)
+    }
+  }
+  if (child.stdout !== null) {
+    child.stdout.on('data', data => output += data)
+  }
+  child.on('error', err => finish({ error: err.message }))
+  child.on('close', code => finish(code === 0 ? { output } : { error: `Command failed: ${cmd}` }))
+  return child
+}
+
+/**
+ * Kills the command started in a process group of its own, with the processes it starts.
+ */
+function killCommand(pid: number) {
+  try {
+    process.kill(-pid, 'SIGTERM')
+  } catch (e) {
+    // the process group is gone with the command
+  }
+}
+
+/**
+ * Evaluates the source given by `executeAsync`, in the worker thread it starts.
+ */
+function executeInWorker(task: WorkerTask) {
+  const requests = parentPort as MessagePort
+  execHost = { requests, replies: task.replies, flags: task.flags }
+  // the output is sent along with the other messages, so that it is written before the result
+  process.stdout.write = ((chunk: string | Uint8Array) => {
+    requests.postMessage({ output: `${chunk}` })
+    return true
+  }) as typeof process.stdout.write
+
+  let result = executeWithin(task.filepath, task.source, new Budget(task.options, task.flags))
+  requests.postMessage(result.handle<WorkerMessage>(
+    vals => ({ values: vals.map(v => `${v}`) }),
+    err => ({ error: new RispError(err.kind, err.message, err.span, err.stack.map(frame => new StackFrame(showCall(frame), frame.location))) })
+  ))
+}
+
+/**
+ * Rebuilds the error sent from the worker thread of `executeAsync`, which has lost the classes of its parts.
+ */
+function reviveError(error: RispError): RispError {
+  const reviveSpan = (span: Span | undefined) => span === undefined ? undefined : new Span(
+    span.filepath,
+    new Position(span.start.line, span.start.column, span.start.offset),
+    new Position(span.end.line, span.end.column, span.end.offset),
+    span.source
+  )
+  let stack = error.stack.map(frame => new StackFrame(frame.name, reviveSpan(frame.location)))
+  return new RispError(error.kind, error.message, reviveSpan(error.span), stack)
+}
+
+/**
+ * Parses the source without expanding the macro calls, then expands the outermost macro calls one step at a time.
+ * @param macros the macros visible to the source; those defined by `interpret`, which it keeps, if not given
+ * @returns the source of every step, beginning with the unexpanded one and ending with the fully expanded one
+ */
+export function macroExpansionSteps(source: string, macros: Parser.MacroScope = interpretMacros): Either<string[], RispError> {
+  const parser = new Parser.Parser('(macroexpand)', source, macros)
+  let ast = parser.parse(false)
+  if (!ast.isLeft()) {
+    return new Right(fromSyntaxError(ast.unwrapRight()))
+  }
+
+  let exprs = ast.unwrapLeft()
+  const show = () => exprs.map(Parser.showExpr).join('\n')
+  let steps = [show()]
+  try {
+    while (exprs.some(Parser.hasMacroCall)) {
+      exprs = exprs.map(expr => Parser.expandMacros(expr, true))
+      steps.push(show())
+    }
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      return new Right(fromSyntaxError(e))
+    }
+    throw e
+  }
+  return new Left(steps)
+}
+
 const interpretEnv = makeInitialEnv()
+const interpretMacros = preludeMacros.child()
+interpretEnv.macroScope = interpretMacros
 // executes, but preserves the environment
-export function interpret(source: string): Either<Value[], string> {
-  const parser = new Parser.Parser('__repl__', source)
+export function interpret(source: string, options: EvalOptions = {}): Either<Value[], RispError> {
+  budget = new Budget(options)
+  const parser = new Parser.Parser('__repl__', source, interpretMacros)
   let ast = parser.parse()
-  return ast.handle<Either<Value[], string>>(
+  return ast.handle<Either<Value[], RispError>>(
     exprs => {
       let vals: Value[] = []
       for (let i = 0; i < exprs.length; i++) {
@@ -1188,175 +2289,809 @@ export function interpret(source: string): Either<Value[], string> {
       }
       return new Left(vals)
     },
-    err => new Right(err)
+    err => new Right(fromSyntaxError(err))
   )
 }
 
-function evaluate(env: Env, expr: Parser.Expr): Either<Value, string> {
-  if (typeof expr === 'number') { // => Number
-    return new Left(expr)
-  } else if (typeof expr === 'string') { // => String
-    return new Left(expr)
+function evaluate(env: Env, expr: Parser.Expr): Either<Value, RispError> {
+  return run(env, compileDynamic(expr))
+}
+
+/**
+ * Runs the compiled expression, then the calls it leaves, within the evaluation limits.
+ */
+function run(env: Env, code: Compiled): Either<Value, RispError> {
+  if (budget.depth >= budget.maxDepth) {
+    return new Right(makeError('limit-error', `maximum evaluation depth of ${budget.maxDepth} exceeded`, code.location, env))
+  }
+
+  const start = env
+  budget.depth++
+  try {
+    while (true) {
+      if (++budget.steps > budget.maxSteps) {
+        return new Right(makeError('limit-error', `evaluation step limit of ${budget.maxSteps} exceeded`, code.location, env))
+      }
+      if (budget.steps % INTERRUPT_CHECK_INTERVAL === 1) {
+        let interruption = budget.interruption(code.location, env)
+        if (interruption !== undefined) {
+          return new Right(interruption)
+        }
+      }
+
+      let result = code(env)
+      if (!(result instanceof TailCall)) {
+        return result
+      }
+      if (result.env.caller === env && env !== start) {
+        // the call is in tail position of the call entered in this loop, which it replaces in traces
+        result.env.caller = env.caller
+      }
+      env = result.env
+      code = result.code
+    }
+  } catch (e) {
+    // a maximum depth raised beyond the JS stack; the innermost run with the stack left to make the error reports it
+    if (isStackOverflow(e)) {
+      return new Right(makeError('limit-error', `maximum evaluation depth of ${budget.maxDepth} is more than the JS stack can hold`, code.location, env))
+    }
+    throw e
+  } finally {
+    budget.depth--
+  }
+}
+
+function isStackOverflow(e: unknown): boolean {
+  return e instanceof RangeError && /call stack/.test(e.message)
+}
+
+function compileDynamic(expr: Parser.Expr): Compiled {
+  let code = dynamicCodes.get(expr)
+  if (code === undefined) {
+    code = compile(expr, undefined)
+    dynamicCodes.set(expr, code)
+  }
+  return code
+}
+
+/**
+ * Adds the variables the expression defines by `let` to the scope it is evaluated in. Function bodies and catch
+ * clauses, which are evaluated in frames of their own, are not looked into.
+ */
+function declare(expr: Parser.Expr, scope: Scope) {
+  if (expr instanceof Parser.SExpr) {
+    if (expr.caller !== undefined) {
+      declare(expr.caller, scope)
+    }
+    expr.args.forEach(arg => declare(arg, scope))
+  } else if (expr instanceof Parser.ListExpr) {
+    expr.items.forEach(item => declare(item, scope))
+  } else if (expr instanceof Parser.DictExpr) {
+    expr.entries.forEach(entry => {
+      declare(entry.key, scope)
+      declare(entry.value, scope)
+    })
+  } else if (expr instanceof Parser.ExprLetVar) {
+    declare(expr.expr, scope)
+    scope.declare(expr.id)
+  } else if (expr instanceof Parser.ExprLetFunc) {
+    scope.declare(expr.id)
+  } else if (expr instanceof Parser.ExprDo || expr instanceof Parser.ExprExec) {
+    expr.exprs.forEach(e => declare(e, scope))
+  } else if (expr instanceof Parser.ExprIf) {
+    declare(expr.cond, scope)
+    declare(expr.consequent, scope)
+    if (expr.alternative !== undefined) {
+      declare(expr.alternative, scope)
+    }
+  } else if (expr instanceof Parser.ExprCond) {
+    expr.clauses.forEach(clause => {
+      declare(clause.test, scope)
+      declare(clause.body, scope)
+    })
+    if (expr.otherwise !== undefined) {
+      declare(expr.otherwise, scope)
+    }
+  } else if (expr instanceof Parser.ExprWhen) {
+    declare(expr.cond, scope)
+    expr.body.forEach(e => declare(e, scope))
+  } else if (expr instanceof Parser.ExprCase) {
+    declare(expr.key, scope)
+    expr.clauses.forEach(clause => declare(clause.body, scope))
+    if (expr.otherwise !== undefined) {
+      declare(expr.otherwise, scope)
+    }
+  } else if (expr instanceof Parser.ExprMatch) {
+    declare(expr.subject, scope)
+  } else if (expr instanceof Parser.ExprTry) {
+    declare(expr.body, scope)
+    if (expr.finalizer !== undefined) {
+      declare(expr.finalizer, scope)
+    }
+  } else if (expr instanceof Parser.Quasiquote) {
+    declareUnquoted(expr.template, scope)
+  }
+}
+
+function declareUnquoted(template: Parser.QuasiExpr, scope: Scope) {
+  if (template instanceof Parser.Unquote) {
+    declare(template.expr, scope)
+  } else if (template instanceof Parser.QuasiParen) {
+    template.items.forEach(item => declareUnquoted(item, scope))
+  }
+}
+
+/**
+ * Compiles the body of a function, which is evaluated in the frame of the call holding the parameters.
+ * @param scope where the function is defined
+ */
+function compileFunction(params: string[], body: Parser.Expr, scope: Scope | undefined): Compiled {
+  if (Parser.hasMacroCall(body)) {
+    try {
+      body = Parser.expandMacros(body)
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) {
+        throw e
+      }
+      // the macro calls fail when they are evaluated, and the variables they would define are not known
+      return compile(body, undefined)
+    }
+  }
+
+  let callScope = new Scope(params.slice(), scope)
+  declare(body, callScope)
+  return compile(body, callScope)
+}
+
+/**
+ * Compiles the expression to run in a frame of the scope. The variables are resolved to the frames they are in at
+ * compile time, and looked up by name only if the frames are not known.
+ * @param scope the frame the expression is evaluated in, or `undefined` if it is not known
+ */
+function compile(expr: Parser.Expr, scope: Scope | undefined): Compiled {
+  if (expr instanceof Parser.Literal) { // => Number, Integer, String
+    let val = new Left<Value, RispError>(expr.value)
+    return located(() => val, expr.location)
   } else if (expr instanceof Parser.Var) { // => *
-    let val = env.lookup(expr.id)
-    if (val === undefined) {
-      return new Right(`undefined variable '${expr.id}'${expr.location}${formatStackTrace('', env)}`)
+    const { id, location, macro } = expr
+    const undefinedVariable = (env: Env) =>
+      new Right<Value, RispError>(makeError('undefined-variable', `undefined variable '${id}'`, location, env))
+
+    if (macro !== undefined) {
+      // identifiers introduced by a macro body are resolved where the macro is defined
+      return located(env => {
+        let defEnv = macroEnvOf(env, macro)
+        let val = (defEnv === undefined ? env : defEnv).lookup(id)
+        return val === undefined ? undefinedVariable(env) : new Left(val)
+      }, location)
+    }
+
+    let depth = scope === undefined ? undefined : scope.resolve(id)
+    if (depth === undefined) {
+      return located(env => {
+        let val = env.lookup(id)
+        return val === undefined ? undefinedVariable(env) : new Left(val)
+      }, location)
     } else {
-      return new Left(val)
+      const d = depth
+      return located(env => {
+        let val = env.lookupAt(d, id)
+        return val === undefined ? undefinedVariable(env) : new Left(val)
+      }, location)
     }
   } else if (expr instanceof Parser.SExpr) {
-    let caller = expr.caller
-    if (caller === undefined) {
-      return new Left(unit)
-    } else {
-      let callerVal = evaluate(env, caller)
-      if (callerVal.isLeft()) {
-        let clos = callerVal.unwrapLeft()
-        if (clos instanceof Closure || clos instanceof BuiltinClosure) {
-          // let functions themselves decide whether to evaluate the arguments
-          return clos.call(env, expr.args, expr.location)
-        } else if (clos instanceof FileHandler) {
-          // ($ file) --good --bad -tax File.c -o a.out
-          let cmd = ''
-          for (let i in expr.args) {
-            let arg = expr.args[i]
-            if (typeof arg === 'number') {
-              cmd += ` ${arg}`
-            } else if (typeof arg === 'string') {
-              cmd += ` ${arg}`
-            } else if (arg instanceof Parser.Var) {
-              cmd += ` ${arg.id}`
-            } else if (arg instanceof FileHandler) {
-              cmd += ` ${arg.abspath}`
-            } else {
-              let argv = evaluate(env, arg)
-              if (!argv.isLeft()) {
-                return argv
-              }
-              let a = argv.unwrapLeft()
-              if (typeof a === 'number') {
-                cmd += ` ${a}`
-              } else if (typeof a === 'string') {
-                cmd += ` ${a}`
-              } else if (a instanceof FileHandler) {
-                cmd += ` ${a.abspath}`
-              } else {
-                return new Right(`unsupported command line argument '${a}'${expr.location}`)
-              }
-            }
-          }
-
-          let result = clos.exec(cmd)
-          if (result === undefined) {
-            return new Left(unit)
+    return compileSExpr(expr, scope)
+  } else if (expr instanceof Parser.ListExpr) {
+    const items = expr.items.map(item => compile(item, scope))
+    return located(env => {
+      let vals: Value[] = []
+      for (let i = 0; i < items.length; i++) {
+        let val = run(env, items[i])
+        if (val.isLeft()) {
+          vals.push(val.unwrapLeft())
+        } else {
+          return val
+        }
+      }
+      return new Left(new List(vals))
+    }, expr.location)
+  } else if (expr instanceof Parser.DictExpr) {
+    const keys = expr.entries.map(entry => compile(entry.key, scope))
+    const values = expr.entries.map(entry => compile(entry.value, scope))
+    return located(env => {
+      let map = new ValueMap()
+      for (let i = 0; i < keys.length; i++) {
+        let keyVal = run(env, keys[i])
+        let valVal = run(env, values[i])
+        if (keyVal.isLeft() && valVal.isLeft()) {
+          map.set(keyVal.unwrapLeft(), valVal.unwrapLeft())
+        } else {
+          if (!keyVal.isLeft()) {
+            return keyVal
           } else {
-            return new Left(result)
+            return valVal
           }
-        } else {
-          return new Right(`not callable: result of the first item of this s-expression is not a closure${expr.location}; result was ${clos}${formatStackTrace('', env)}`)
         }
+      }
+      return new Left(new Dict(map))
+    }, expr.location)
+  } else if (expr instanceof Parser.ExprLetVar) {
+    const id = expr.id
+    const value = compile(expr.expr, scope)
+    // a variable not declared at compile time makes the frame unknown
+    const known = scope !== undefined
+    return located(env => {
+      let bodyVal = run(env, value)
+      if (bodyVal.isLeft()) {
+        env.set(id, bodyVal.unwrapLeft())
+        env.extended = env.extended || !known
+        return new Left(bodyVal.unwrapLeft())
       } else {
-        return callerVal
+        return new Right(bodyVal.unwrapRight())
       }
+    }, expr.location)
+  } else if (expr instanceof Parser.ExprLetFunc) {
+    const { id, params, body, location } = expr
+    const code = compileFunction(params, body, scope)
+    const known = scope !== undefined
+    return located(env => {
+      let clos = new Closure(new ClosureMeta(id, location), env, params, body, code)
+      env.set(id, clos)
+      env.extended = env.extended || !known
+      return new Left(clos)
+    }, location)
+  } else if (expr instanceof Parser.ExprLambda) {
+    const { args, body, location } = expr
+    const code = compileFunction(args, body, scope)
+    return located(env => new Left(new Closure(new ClosureMeta('(lambda)', location), env, args, body, code)), location)
+  } else if (expr instanceof Parser.ExprDo) {
+    const exprs = expr.exprs.map(e => compile(e, scope))
+    if (exprs.length === 0) {
+      return located(() => new Left(unit), expr.location)
     }
-  } else if (expr instanceof Parser.ListExpr) {
-    let vals: Value[] = []
+    return located(env => {
+      for (let i = 0; i < exprs.length - 1; i++) {
+        let v = run(env, exprs[i])
+        if (!v.isLeft()) {
+          return v
+        }
+      }
+      // the last expression is in tail position
+      return new TailCall(env, exprs[exprs.length - 1])
+    }, expr.location)
+  } else if (expr instanceof Parser.ExprExec) {
+    const exprs = expr.exprs.map(e => compile(e, scope))
+    const location = expr.location
+    return located(env => {
+      let values: Value[] = []
+      for (let i = 0; i < exprs.length; i++) {
+        let v = run(env, exprs[i])
+        if (!v.isLeft()) {
+          return v
+        } else if (typeof v.unwrapLeft() !== 'string') {
+          return new Right(makeError('type-error', `expected string value for '@'`, location, env))
+        }
+        values.push(v.unwrapLeft())
+      }
 
-    for (let i = 0; i < expr.items.length; i++) {
-      let item = expr.items[i]
-      let val = evaluate(env, item)
-      if (val.isLeft()) {
-        vals.push(val.unwrapLeft())
-      } else {
-        return val
+      let cmd = values.join(' ')
+      let interruption = budget.interruption(location, env)
+      if (interruption !== undefined) {
+        return new Right(interruption)
+      }
+      let result = ''
+      try {
+        result = budget.exec(cmd)
+      } catch (e) {
+        // a command killed for the timeout fails with the timeout
+        interruption = budget.interruption(location, env)
+        if (interruption !== undefined) {
+          return new Right(interruption)
+        }
+        console.error(e)
+        return new Right(makeError('process-error', `error while executing command '${cmd}'`, location, env))
+      }
+
+      process.stdout.write(result)
+      return new Left(result)
+    }, location)
+  } else if (expr instanceof Parser.ExprIf) {
+    const cond = compile(expr.cond, scope)
+    const consequent = compile(expr.consequent, scope)
+    const alternative = expr.alternative === undefined ? undefined : compile(expr.alternative, scope)
+    const location = expr.location
+    return located(env => {
+      let condVal = run(env, cond)
+      if (!condVal.isLeft()) {
+        return condVal
+      }
+      let c = condVal.unwrapLeft()
+      if (!(c instanceof Bool)) {
+        return new Right(conditionError(c, 'if', location, env))
+      }
+      // the selected branch is in tail position
+      if (c.value) {
+        return new TailCall(env, consequent)
+      }
+      return alternative === undefined ? new Left(unit) : new TailCall(env, alternative)
+    }, location)
+  } else if (expr instanceof Parser.ExprCond) {
+    const tests = expr.clauses.map(clause => compile(clause.test, scope))
+    const bodies = expr.clauses.map(clause => compile(clause.body, scope))
+    const otherwise = expr.otherwise === undefined ? undefined : compile(expr.otherwise, scope)
+    const location = expr.location
+    return located(env => {
+      for (let i = 0; i < tests.length; i++) {
+        let testVal = run(env, tests[i])
+        if (!testVal.isLeft()) {
+          return testVal
+        }
+        let t = testVal.unwrapLeft()
+        if (!(t instanceof Bool)) {
+          return new Right(conditionError(t, 'cond', location, env))
+        }
+        if (t.value) {
+          return new TailCall(env, bodies[i])
+        }
+      }
+      return otherwise === undefined ? new Left(unit) : new TailCall(env, otherwise)
+    }, location)
+  } else if (expr instanceof Parser.ExprWhen) {
+    const cond = compile(expr.cond, scope)
+    const body = expr.body.map(e => compile(e, scope))
+    const { negated, location } = expr
+    return located(env => {
+      let condVal = run(env, cond)
+      if (!condVal.isLeft()) {
+        return condVal
+      }
+      let c = condVal.unwrapLeft()
+      if (!(c instanceof Bool)) {
+        return new Right(conditionError(c, negated ? 'unless' : 'when', location, env))
+      }
+      if (c.value === negated) {
+        return new Left(unit)
+      }
+      for (let i = 0; i < body.length - 1; i++) {
+        let v = run(env, body[i])
+        if (!v.isLeft()) {
+          return v
+        }
+      }
+      return new TailCall(env, body[body.length - 1])
+    }, location)
+  } else if (expr instanceof Parser.ExprCase) {
+    const key = compile(expr.key, scope)
+    const values = expr.clauses.map(clause => clause.values.map(value => compile(value, scope)))
+    const bodies = expr.clauses.map(clause => compile(clause.body, scope))
+    const otherwise = expr.otherwise === undefined ? undefined : compile(expr.otherwise, scope)
+    return located(env => {
+      let keyVal = run(env, key)
+      if (!keyVal.isLeft()) {
+        return keyVal
+      }
+      let k = keyVal.unwrapLeft()
+      for (let i = 0; i < values.length; i++) {
+        for (let j = 0; j < values[i].length; j++) {
+          let v = run(env, values[i][j])
+          if (!v.isLeft()) {
+            return v
+          }
+          if (valuesEqual(k, v.unwrapLeft())) {
+            return new TailCall(env, bodies[i])
+          }
+        }
+      }
+      return otherwise === undefined ? new Left(unit) : new TailCall(env, otherwise)
+    }, expr.location)
+  } else if (expr instanceof Parser.ExprMatch) {
+    const subject = compile(expr.subject, scope)
+    const clauses = expr.clauses
+    const matchers = clauses.map(clause => compilePattern(clause.pattern))
+    const guards: (Compiled | undefined)[] = []
+    const bodies: Compiled[] = []
+    clauses.forEach(clause => {
+      // the variables of the pattern are bound in a frame of the clause
+      let clauseScope = new Scope(Parser.patternBinders(clause.pattern), scope)
+      if (clause.guard !== undefined) {
+        declare(clause.guard, clauseScope)
+      }
+      declare(clause.body, clauseScope)
+      guards.push(clause.guard === undefined ? undefined : compile(clause.guard, clauseScope))
+      bodies.push(compile(clause.body, clauseScope))
+    })
+    const location = expr.location
+    return located(env => {
+      let subjectVal = run(env, subject)
+      if (!subjectVal.isLeft()) {
+        return subjectVal
+      }
+      let v = subjectVal.unwrapLeft()
+      for (let i = 0; i < clauses.length; i++) {
+        let clauseEnv = env.pushed('(match)', clauses[i].location)
+        if (!matchers[i](v, clauseEnv)) {
+          continue
+        }
+        let guard = guards[i]
+        if (guard !== undefined) {
+          let guardVal = run(clauseEnv, guard)
+          if (!guardVal.isLeft()) {
+            return guardVal
+          }
+          let g = guardVal.unwrapLeft()
+          if (!(g instanceof Bool)) {
+            return new Right(conditionError(g, 'match', clauses[i].location, env))
+          }
+          if (!g.value) {
+            continue
+          }
+        }
+        return new TailCall(clauseEnv, bodies[i])
+      }
+      return new Right(makeError('match-error', `no pattern matches ${reprValue(v)} of type ${showValueType(v)}`, location, env))
+    }, location)
+  } else if (expr instanceof Parser.ExprTry) {
+    const body = compile(expr.body, scope)
+    const catches = expr.catches.map(clause => {
+      let catchScope = new Scope([clause.name], scope)
+      declare(clause.body, catchScope)
+      return compile(clause.body, catchScope)
+    })
+    const clauses = expr.catches
+    const finalizer = expr.finalizer === undefined ? undefined : compile(expr.finalizer, scope)
+    return located(env => {
+      let result = run(env, body)
+      if (!result.isLeft() && UNCATCHABLE_KINDS.indexOf(result.unwrapRight().kind) < 0) {
+        let error = result.unwrapRight()
+        for (let i = 0; i < clauses.length; i++) {
+          let clause = clauses[i]
+          if (clause.kinds.length === 0 || clause.kinds.indexOf(error.kind) >= 0) {
+            let catchEnv = env.pushed('(catch)', clause.location)
+            catchEnv.set(clause.name, error)
+            result = run(catchEnv, catches[i])
+            break
+          }
+        }
+      }
+
+      // the value of the finally expression is discarded, but its error replaces the result
+      if (finalizer !== undefined) {
+        let cleanup = run(env, finalizer)
+        if (!cleanup.isLeft()) {
+          return cleanup
+        }
+      }
+      return result
+    }, expr.location)
+  } else if (expr instanceof Parser.Quasiquote) {
+    const quasi = expr
+    return located(env => {
+      let built = buildQuasiExpr(env, quasi.template, quasi)
+      if (!built.isLeft()) {
+        return new Right(built.unwrapRight())
+      }
+      return new Left(new Code(built.unwrapLeft()[0]))
+    }, expr.location)
+  } else if (expr instanceof Parser.MacroCall) {
+    // expanded when it is first evaluated; the variables the expansion defines are not known at compile time
+    const call = expr
+    let expanded: Compiled | undefined = undefined
+    return located(env => {
+      if (expanded === undefined) {
+        try {
+          expanded = compile(Parser.expandMacros(call), undefined)
+        } catch (e) {
+          if (e instanceof SyntaxError) {
+            return new Right(new RispError('syntax-error', e.message, e.span, stackOf(env)))
+          }
+          throw e
+        }
+      }
+      return new TailCall(env, expanded)
+    }, expr.location)
+  } else if (expr instanceof Parser.Macro) {
+    const macro = expr
+    return located(env => {
+      // macro definition; it is evaluated again in every call of a function defining it, and in every environment
+      // the prelude is loaded into
+      if (env.macros === undefined) {
+        env.macros = []
+      }
+      if (env.macros.indexOf(macro) < 0) {
+        env.macros.push(macro)
+      }
+      macroEnvs.set(macro, env)
+      return new Left(unit)
+    }, expr.location)
+  } else if (expr instanceof Parser.MacroExport || expr instanceof Parser.ProcMacro) {
+    return located(() => new Left(unit), expr.location)
+  } else {
+    throw new Error('never here')
+  }
+}
+
+/** Tests whether the value matches a pattern, binding the variables of the pattern in the environment if so. */
+type Matcher = (value: Value, bindings: Env) => boolean
+
+function compilePattern(pattern: Parser.Pattern): Matcher {
+  if (pattern instanceof Parser.LiteralPattern) {
+    const literal = literalValue(pattern.value)
+    return value => valuesEqual(value, literal)
+  } else if (pattern instanceof Parser.VarPattern) {
+    const id = pattern.id
+    if (id === '_') {
+      return () => true
+    }
+    return (value, bindings) => {
+      bindings.set(id, value)
+      return true
+    }
+  } else if (pattern instanceof Parser.ListPattern) {
+    const items = pattern.items.map(compilePattern)
+    const rest = pattern.rest === undefined ? undefined : compilePattern(pattern.rest)
+    return (value, bindings) => {
+      if (!(value instanceof List)) {
+        return false
+      }
+      let values = value.values
+      if (rest === undefined ? values.length !== items.length : values.length < items.length) {
+        return false
+      }
+      for (let i = 0; i < items.length; i++) {
+        if (!items[i](values[i], bindings)) {
+          return false
+        }
+      }
+      return rest === undefined || rest(new List(values.slice(items.length)), bindings)
+    }
+  } else {
+    const keys = pattern.keys.map(literalValue)
+    const values = pattern.values.map(compilePattern)
+    return (value, bindings) => {
+      if (!(value instanceof Dict)) {
+        return false
+      }
+      for (let i = 0; i < keys.length; i++) {
+        let v = value.data.get(keys[i])
+        if (v === undefined || !values[i](v, bindings)) {
+          return false
+        }
       }
+      return true
     }
+  }
+}
 
-    return new Left(new List(vals))
-  } else if (expr instanceof Parser.DictExpr) {
-    let map: Map<Value, Value> = new Map()
-
-    for (let i = 0; i < expr.entries.length; i++) {
-      let entry = expr.entries[i]
-      let keyVal = evaluate(env, entry.key)
-      let valVal = evaluate(env, entry.value)
-      if (keyVal.isLeft() && valVal.isLeft()) {
-        map.set(keyVal.unwrapLeft(), valVal.unwrapLeft())
-      } else {
-        if (!keyVal.isLeft()) {
-          return keyVal
+/**
+ * @returns the value of a literal in a pattern
+ */
+function literalValue(expr: Parser.Expr): Value {
+  if (expr instanceof Parser.Literal) {
+    return expr.value
+  } else if (expr instanceof Parser.Var) {
+    return expr.id === '#t' ? boolTrue : boolFalse
+  } else {
+    return unit
+  }
+}
+
+function compileSExpr(expr: Parser.SExpr, scope: Scope | undefined): Compiled {
+  const { caller, args, location } = expr
+  if (caller === undefined) {
+    return located(() => new Left(unit), location)
+  }
+
+  const callerCode = compile(caller, scope)
+  const argCodes = args.map(arg => compile(arg, scope))
+  const argLocations = args.map(arg => arg.location)
+  return located(env => {
+    let callerVal = run(env, callerCode)
+    if (!callerVal.isLeft()) {
+      return callerVal
+    }
+
+    let clos = callerVal.unwrapLeft()
+    if (clos instanceof Closure) {
+      if (args.length !== clos.params.length) {
+        return new Right(makeError('arity-error', `number of arguments: function '${clos.meta.id}' defined${clos.meta.location}: expected ${clos.params.length}, got ${args.length}`, location, env))
+      }
+      let vals: Value[] = []
+      for (let i = 0; i < argCodes.length; i++) {
+        let val = run(env, argCodes[i])
+        if (val.isLeft()) {
+          vals.push(val.unwrapLeft())
         } else {
-          return valVal
+          return val
+        }
+      }
+      let bound = clos.bind(vals, location, env)
+      if (!bound.isLeft()) {
+        return new Right(bound.unwrapRight())
+      }
+      return new TailCall(bound.unwrapLeft(), clos.code)
+    } else if (clos instanceof Bool) {
+      if (args.length !== 2) {
+        return new Right(makeError('arity-error', `number of arguments: Boolean '${clos}': expected 2, got ${args.length}`, location, env))
+      }
+      // the selected branch is in tail position
+      return new TailCall(env, argCodes[clos.value ? 0 : 1])
+    } else if (clos instanceof BuiltinClosure) {
+      if (clos._call === undefined) {
+        // let functions themselves decide whether to evaluate the arguments
+        return clos.call(env, args, location)
+      }
+      if (args.length !== clos.params.length) {
+        return new Right(makeError('arity-error', `number of arguments: function '${clos.id}': expected ${clos.params.length}, got ${args.length}`, location, env))
+      }
+      let vals: Value[] = []
+      for (let i = 0; i < argCodes.length; i++) {
+        let val = run(env, argCodes[i])
+        if (val.isLeft()) {
+          vals.push(val.unwrapLeft())
+        } else {
+          return val
+        }
+      }
+      return clos._call(vals, location, env, argLocations)
+    } else if (clos instanceof FileHandler) {
+      // ($ file) --good --bad -tax File.c -o a.out
+      let cmd = ''
+      for (let i = 0; i < args.length; i++) {
+        let arg = args[i]
+        if (arg instanceof Parser.Literal) {
+          cmd += ` ${arg.value}`
+        } else if (arg instanceof Parser.Var) {
+          cmd += ` ${arg.id}`
+        } else {
+          let argv = run(env, argCodes[i])
+          if (!argv.isLeft()) {
+            return argv
+          }
+          let a = argv.unwrapLeft()
+          if (isNumber(a)) {
+            cmd += ` ${a}`
+          } else if (typeof a === 'string') {
+            cmd += ` ${a}`
+          } else if (a instanceof FileHandler) {
+            cmd += ` ${a.abspath}`
+          } else {
+            return new Right(makeError('type-error', `unsupported command line argument '${a}'`, location, env))
+          }
         }
       }
-    }
 
-    return new Left(new Dict(map))
-  } else if (expr instanceof Parser.ExprLetVar) {
-    let bodyVal = evaluate(env, expr.expr)
-    if (bodyVal.isLeft()) {
-      env.set(expr.id, bodyVal.unwrapLeft())
-      return new Left(bodyVal.unwrapLeft())
+      let interruption = budget.interruption(location, env)
+      if (interruption !== undefined) {
+        return new Right(interruption)
+      }
+      let result = clos.exec(cmd)
+      // a command killed for the timeout fails with the timeout
+      interruption = budget.interruption(location, env)
+      if (interruption !== undefined) {
+        return new Right(interruption)
+      }
+      if (result === undefined) {
+        return new Left(unit)
+      } else {
+        return new Left(result)
+      }
     } else {
-      return new Right(bodyVal.unwrapRight())
+      return new Right(makeError('type-error', `not callable: result of the first item of this s-expression is not a closure; result was ${clos}`, location, env))
     }
-  } else if (expr instanceof Parser.ExprLetFunc) {
-    let clos = new Closure(
-      new ClosureMeta(expr.id, expr.location),
-      env,
-      expr.params,
-      expr.body
-    )
-    env.set(expr.id, clos)
-    return new Left(clos)
-  } else if (expr instanceof Parser.ExprLambda) {
-    let clos = new Closure(
-      new ClosureMeta('(lambda)', expr.location),
-      env,
-      expr.args,
-      expr.body
-    )
-    return new Left(clos)
-  } else if (expr instanceof Parser.ExprDo) {
-    let exprs = expr.exprs
-    let v: Either<Value, string> = new Right('never here')
-    for (let i = 0; i < exprs.length; i++) {
-      let e = exprs[i]
-      v = evaluate(env, e)
-      if (!v.isLeft()) {
-        return v
-      }
+  }, location)
+}
+
+/**
+ * Builds the code of a quasiquote template, evaluating the unquoted parts in it.
+ * @returns the expressions built; more than one only when a list value is spliced by `,@`
+ */
+function buildQuasiExpr(env: Env, template: Parser.QuasiExpr, quasi: Parser.Quasiquote): Either<Parser.Expr[], RispError> {
+  if (template instanceof Parser.Unquote) {
+    let val = evaluate(env, template.expr)
+    if (!val.isLeft()) {
+      return new Right(val.unwrapRight())
     }
-    return v
-  } else if (expr instanceof Parser.ExprExec) {
-    let exprs = expr.exprs
-    let values: Value[] = []
-    for (let i in exprs) {
-      let e = exprs[i]
-      let v = evaluate(env, e)
-      if (!v.isLeft()) {
-        return v
-      } else if (typeof v.unwrapLeft() !== 'string') {
-        return new Right(`expected string value for '@'${expr.location}`)
+    let v = val.unwrapLeft()
+
+    if (template.splicing) {
+      if (!(v instanceof List)) {
+        return new Right(makeError('type-error', `expected a List to splice by ',@', got ${showValueType(v)}`, quasi.location, env))
       }
-      values.push(v.unwrapLeft())
+      let exprs: Parser.Expr[] = []
+      for (let i = 0; i < v.values.length; i++) {
+        let e = valueToExpr(v.values[i], template.location)
+        if (e === undefined) {
+          return new Right(makeError('type-error', `cannot put a value of ${showValueType(v.values[i])} into code`, quasi.location, env))
+        }
+        exprs.push(e)
+      }
+      return new Left(exprs)
+    } else {
+      let e = valueToExpr(v, template.location)
+      if (e === undefined) {
+        return new Right(makeError('type-error', `cannot put a value of ${showValueType(v)} into code`, quasi.location, env))
+      }
+      return new Left([e])
+    }
+  } else if (template instanceof Parser.QuasiParen) {
+    let items: Parser.Expr[] = []
+    for (let i = 0; i < template.items.length; i++) {
+      let built = buildQuasiExpr(env, template.items[i], quasi)
+      if (!built.isLeft()) {
+        return built
+      }
+      items = items.concat(built.unwrapLeft())
     }
 
-    let cmd = values.join(' ')
-    let result = ''
-    try {
-      result = proc.execSync(cmd).toString()
-    } catch (e) {
-      console.error(e)
-      return new Right(`error while executing command '${cmd}'${expr.location}`)
+    if (template.type === '(') {
+      try {
+        return new Left([Parser.buildForm(items, quasi.location, quasi.macros)])
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          return new Right(new RispError('syntax-error', e.message, e.span, stackOf(env)))
+        }
+        throw e
+      }
+    } else if (template.type === '[') {
+      return new Left([new Parser.ListExpr(items, template.location)])
+    } else {
+      // { (k v) ... } => each item is built as an s-expression of 2 items
+      let entries: Parser.DictEntry[] = []
+      for (let i = 0; i < items.length; i++) {
+        let item = items[i]
+        if (!(item instanceof Parser.SExpr) || item.caller === undefined || item.args.length !== 1) {
+          return new Right(makeError('type-error', `expected (key value) entries for a dict in quasiquote`, quasi.location, env))
+        }
+        entries.push(new Parser.DictEntry(item.caller, item.args[0]))
+      }
+      return new Left([new Parser.DictExpr(entries, template.location)])
     }
+  } else {
+    return new Left([template])
+  }
+}
 
-    process.stdout.write(result)
-    return new Left(result)
-  } else if (expr instanceof Parser.Macro) {
-    // macro definition
-    return new Left(unit)
+/**
+ * Converts a value to the code evaluated to it.
+ * @param location where the code is made, for the expressions that are not code already
+ * @returns `undefined` if the value cannot be written as code, e.g. a closure
+ */
+function valueToExpr(v: Value, location: Span): Parser.Expr | undefined {
+  if (typeof v === 'number' || typeof v === 'bigint' || typeof v === 'string') {
+    return new Parser.Literal(v, location)
+  } else if (v instanceof Code) {
+    return v.expr
+  } else if (v instanceof Unit) {
+    return new Parser.SExpr([], location)
+  } else if (v === boolTrue || v === boolFalse) {
+    return new Parser.Var(`${v}`, location)
+  } else if (v instanceof List) {
+    let items: Parser.Expr[] = []
+    for (let i = 0; i < v.values.length; i++) {
+      let e = valueToExpr(v.values[i], location)
+      if (e === undefined) {
+        return undefined
+      }
+      items.push(e)
+    }
+    return new Parser.ListExpr(items, location)
+  } else if (v instanceof Dict) {
+    let entries: Parser.DictEntry[] = []
+    let keys = v.data.keys()
+    for (let i = 0; i < keys.length; i++) {
+      let key = valueToExpr(keys[i], location)
+      let val = valueToExpr(v.data.get(keys[i]) as Value, location)
+      if (key === undefined || val === undefined) {
+        return undefined
+      }
+      entries.push(new Parser.DictEntry(key, val))
+    }
+    return new Parser.DictExpr(entries, location)
   } else {
-    throw new Error('never here')
+    return undefined
   }
 }
+
+if (!isMainThread && workerData !== null && typeof workerData === 'object' && workerData.executeAsync !== undefined) {
+  executeInWorker(workerData.executeAsync)
+}
@@ -1,7 +1,41 @@
 import fs from "fs"
 import { Lexer, TokenType } from "./lexer"
 import { Parser } from "./ll-parser"
-import { execute } from "./semantics"
+import { Parser as SpanParser } from "./ll-parser-except"
+import { execute, executeAsync, EvalOptions } from "./semantics"
+
+/** Reports a failed test and makes the test run exit with a non-zero code. */
+function fail(message: string) {
+  console.error(message)
+  process.exitCode = 1
+}
+
+/** Runs `examples/<name>.risp` and checks that it prints exactly `examples/<name>.out`. */
+function runExample(name: string) {
+  const path = `examples/${name}.risp`
+  const source = fs.readFileSync(path).toString()
+  const write = process.stdout.write
+  let output = ''
+  process.stdout.write = ((chunk: string) => {
+    output += chunk
+    return true
+  }) as typeof process.stdout.write
+  let values
+  try {
+    values = execute(path, source)
+  } finally {
+    process.stdout.write = write
+  }
+  process.stdout.write(output)
+  values.handle(
+    _vals => {
+      if (output !== fs.readFileSync(`examples/${name}.out`).toString()) {
+        fail(`${path} did not print the contents of examples/${name}.out`)
+      }
+    },
+    err => fail(`${err}`)
+  )
+}
 
 class Tests {
   static tokenizer_test() {
@@ -30,7 +64,7 @@ class Tests {
     let ast = parser.parse()
     ast.handle(
       exprs => console.log(exprs),
-      err => console.error(err)
+      err => console.error(`${err}`)
     )
   }
 
@@ -43,9 +77,166 @@ class Tests {
           console.log(`${vals[i]}`)
         }
       },
-      err => console.error(err)
+      err => fail(`${err}`)
+    )
+  }
+
+  static span_test() {
+    const source = '\n(let xs [1 2])\n{ (1 (\\ (x) x)) }\n"a" 0x10n'
+    let ast = new SpanParser('span_test', source).parse()
+    ast.handle(
+      exprs => {
+        for (let i = 0; i < exprs.length; i++) {
+          let { start, end } = exprs[i].location
+          console.log(`${exprs[i].constructor.name} ${start.line}:${start.column}-${end.line}:${end.column} [${start.offset}, ${end.offset})`)
+        }
+      },
+      err => fail(`${err}`)
+    )
+  }
+
+  static macro_test() {
+    runExample('macro_test')
+  }
+
+  static macro_mismatch_test() {
+    const source = '(macro (m %a{expr} %[then else] %b{expr}) %a)\n(m 1 foo 2)'
+    let values = execute('macro_mismatch_test', source)
+    values.handle(
+      _vals => fail('expected a macro mismatch error'),
+      err => console.log(`${err}`)
     )
   }
+
+  static error_test() {
+    const sources = ['(add 1 "a")', '(get [1] 5)', '(get {(1 2)} 3)', '(let (f x) x)\n(f 1 2)', '(undefined-thing)', '(read "no/such/file")', '(', '(println "abc)', '(println "a\\qb")', '"\\u{110000}"', '(add 0x1G 1)', '1__000', '1.5n', '(case 1 (x 2))', '(cond (else 1) ((lt 1 2) 2))', '(match [1 2] ([x x] x))', '(match [1 2] ([a & b c] a))', '(defmacro (two a b & rest) a)\n(two 1)', '(defmacro (fn) (\\ (x) x))\n(fn)', '(let n 1)\n(defmacro (m) n)\n(m)', '(try (raise "limit-error" "x") (catch e (raise (error-kind e) (error-message e))))']
+    for (let i = 0; i < sources.length; i++) {
+      execute('error_test', sources[i]).handle(
+        _vals => fail(`expected an error from ${sources[i]}`),
+        err => {
+          let at = err.span === undefined ? '' : ` ${err.span.start.line}:${err.span.start.column}`
+          console.log(`${err.kind}${at}: ${err.message}`)
+        }
+      )
+    }
+  }
+
+  static quasiquote_test() {
+    runExample('quasiquote_test')
+  }
+
+  static defmacro_test() {
+    runExample('defmacro_test')
+  }
+
+  static try_test() {
+    runExample('try_test')
+  }
+
+  static string_test() {
+    runExample('string_test')
+  }
+
+  static number_test() {
+    runExample('number_test')
+  }
+
+  static integer_test() {
+    runExample('integer_test')
+  }
+
+  static compare_test() {
+    runExample('compare_test')
+  }
+
+  static dict_test() {
+    runExample('dict_test')
+  }
+
+  static boolean_test() {
+    runExample('boolean_test')
+  }
+
+  static conditional_test() {
+    runExample('conditional_test')
+  }
+
+  static match_test() {
+    runExample('match_test')
+  }
+
+  static tail_call_test() {
+    runExample('tail_call_test')
+  }
+
+  static limit_test() {
+    const recursion = '(let (f n) ((le n 0) 0 (add 1 (f (sub n 1)))))\n'
+    const loop = '(let (loop) (loop))\n(loop)'
+    const spin = '(let (spin n) ((le n 0) 0 (spin (sub n 1))))\n'
+    const cancelled = new AbortController()
+    cancelled.abort()
+    const runs: [string, EvalOptions][] = [
+      [recursion + '(f 100000)', {}],
+      [recursion + '(f 100)', { maxDepth: 50 }],
+      [recursion + '(f 1000000)', { maxDepth: 1000000 }],
+      [loop, { maxSteps: 10000 }],
+      [loop, { timeout: 100 }],
+      [spin + '(let (retry) (do (try (spin 1000000) (catch e (println (error-kind e))) (finally (println "finally"))) (retry)))\n(retry)', { timeout: 50 }],
+      ['(@ "sleep" "10")', { timeout: 100 }],
+      [loop, { signal: cancelled.signal }],
+    ]
+    for (let i = 0; i < runs.length; i++) {
+      execute('limit_test', runs[i][0], runs[i][1]).handle(
+        _vals => fail(`expected an error from ${runs[i][0]}`),
+        err => console.log(`${err.kind}: ${err.message}`)
+      )
+    }
+
+    // cancelled while the command is running, which takes much shorter than the command if it is killed
+    const running = new AbortController()
+    const start = Date.now()
+    setTimeout(() => running.abort(), 1000)
+    executeAsync('limit_test', '(@ "sleep" "10")', { signal: running.signal }).then(values => values.handle(
+      _vals => fail('expected an error from the cancelled command'),
+      err => {
+        console.log(`${err.kind}: ${err.message}`)
+        if (Date.now() - start >= 5000) {
+          fail('the cancelled command is not killed')
+        }
+      }
+    ))
+  }
+
+  static trace_test() {
+    const sources = [
+      '(let (g a b) (add a b))\n(let (f x) (add 1 (g x "a")))\n(let (h) (f 2))\n(h)',
+      '(let (run cmd) (@ cmd "1"))\n(let (f) (add 1 (run "exit")))\n(f)',
+    ]
+    for (let i = 0; i < sources.length; i++) {
+      execute('trace_test', sources[i]).handle(
+        _vals => fail(`expected an error from ${sources[i]}`),
+        err => console.log(`${err}`)
+      )
+    }
+  }
 }
 
 Tests.semantics_test()
+Tests.span_test()
+Tests.macro_test()
+Tests.macro_mismatch_test()
+Tests.error_test()
+Tests.quasiquote_test()
+Tests.defmacro_test()
+Tests.try_test()
+Tests.string_test()
+Tests.number_test()
+Tests.integer_test()
+Tests.compare_test()
+Tests.dict_test()
+Tests.boolean_test()
+Tests.conditional_test()
+Tests.match_test()
+Tests.tail_call_test()
+Tests.limit_test()
+Tests.trace_test()